@@ -10,6 +10,8 @@ const envSchema = z.object({
   REFRESH_TOKEN_SECRET: z.string().min(10),
   ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(900),
   REFRESH_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(60 * 60 * 24 * 14),
+  SESSION_STATUS_TTL_SECONDS: z.coerce.number().int().positive().default(5),
+  ASSIGNMENTS_TTL_SECONDS: z.coerce.number().int().positive().default(5),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -6,10 +6,11 @@ import calculatorRouter from './routes/calculator.js';
 import leaderboardRouter from './routes/leaderboard.js';
 import adminRouter from './routes/admin.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { ASSIGNMENTS_VERSION_HEADER } from './utils/assignments.js';
 
 const app = express();
 
-app.use(cors());
+app.use(cors({ exposedHeaders: [ASSIGNMENTS_VERSION_HEADER] }));
 app.use(express.json());
 
 app.get('/health', (_req, res) => {
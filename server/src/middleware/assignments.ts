@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from 'express';
+import { HttpError } from '../utils/errors.js';
+import { ASSIGNMENTS_VERSION_HEADER, resolveAssignments } from '../utils/assignments.js';
+
+/**
+ * Replaces the node and category lists frozen into the access token with the current
+ * assignments and advertises their version, so reassignments apply without a new login.
+ */
+export async function resolveCurrentAssignments(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) {
+    return next(new HttpError(401, 'Unauthorized'));
+  }
+  if (req.auth.role === 'admin') {
+    return next();
+  }
+
+  try {
+    const assignments = await resolveAssignments(req.auth.userId, req.auth.eventId, req.auth.role);
+    req.auth.nodeIds = assignments.nodeIds;
+    req.auth.allowedCategories = assignments.allowedCategories;
+    res.setHeader(ASSIGNMENTS_VERSION_HEADER, assignments.version);
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+}
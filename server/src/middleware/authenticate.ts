@@ -1,8 +1,9 @@
 import type { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken } from '../tokens.js';
+import { verifyAccessToken, type TokenPayload } from '../tokens.js';
 import { HttpError } from '../utils/errors.js';
+import { isSessionActive } from '../utils/sessions.js';
 
-export function authenticate(req: Request, _res: Response, next: NextFunction) {
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header?.startsWith('Bearer ')) {
     return next(new HttpError(401, 'Missing authorization token'));
@@ -13,18 +14,28 @@ export function authenticate(req: Request, _res: Response, next: NextFunction) {
     return next(new HttpError(401, 'Missing authorization token'));
   }
 
+  let payload: TokenPayload;
   try {
-    const payload = verifyAccessToken(token);
-    req.auth = {
-      userId: payload.sub,
-      role: payload.role,
-      eventId: payload.eventId,
-      sessionId: payload.sessionId,
-      nodeIds: payload.nodeIds ?? [],
-      allowedCategories: payload.allowedCategories ?? [],
-    };
-    return next();
+    payload = verifyAccessToken(token);
   } catch (error) {
     return next(new HttpError(401, 'Invalid or expired token', error));
   }
+
+  try {
+    if (!(await isSessionActive(payload.sessionId))) {
+      return next(new HttpError(401, 'Session revoked'));
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  req.auth = {
+    userId: payload.sub,
+    role: payload.role,
+    eventId: payload.eventId,
+    sessionId: payload.sessionId,
+    nodeIds: payload.nodeIds ?? [],
+    allowedCategories: payload.allowedCategories ?? [],
+  };
+  return next();
 }
@@ -1,13 +1,31 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { randomBytes } from 'node:crypto';
 import { z } from 'zod';
 import { supabase } from '../supabase.js';
 import { authenticate } from '../middleware/authenticate.js';
 import { requireRole } from '../middleware/requireRole.js';
 import { HttpError } from '../utils/errors.js';
-import { ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
-import { insertAuditLog } from '../utils/audit.js';
-import type { CategoryRow, CompetitorRow, EventRow, NodeRow } from '../types.js';
+import { ensureAllRows, ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
+import { AUDIT_ACTIONS, insertAuditLog, loadAuditUserNames } from '../utils/audit.js';
+import { assertFaultCodeExists, loadFaultCodes } from '../utils/faultCodes.js';
+import { parseCompetitorSheet } from '../utils/competitorImport.js';
+import { loadCategoryNodeIds } from '../utils/categoryNodes.js';
+import { assertCategoryOpen } from '../utils/finalization.js';
+import { generatePassword, hashPassword } from '../utils/passwords.js';
+import { markSessionsRevoked, revokeUserSessions } from '../utils/sessions.js';
+import { invalidateAssignments } from '../utils/assignments.js';
+import type {
+  AttemptAuditRow,
+  AuthContext,
+  CategoryRow,
+  CompetitorRow,
+  EventRow,
+  FaultCodeRow,
+  NodeRow,
+  UserEventRoleRow,
+  UserRow,
+  UserSessionRow,
+} from '../types.js';
 
 const createCompetitorSchema = z.object({
   displayName: z.string().min(1).max(200),
@@ -19,6 +37,20 @@ const createCompetitorSchema = z.object({
   generateToken: z.boolean().optional().default(false),
 });
 
+const importRowSchema = createCompetitorSchema.omit({ generateToken: true });
+
+const importQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('true')
+    .transform((value) => value === 'true'),
+  generateTokens: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
 const updateCompetitorSchema = z.object({
   displayName: z.string().min(1).max(200).optional(),
   categoryCode: z.string().min(1).optional(),
@@ -28,64 +60,1770 @@ const updateCompetitorSchema = z.object({
   notes: z.string().max(500).nullable().optional(),
 });
 
-const issueTokenSchema = z.object({
-  regenerate: z.boolean().optional().default(true),
-});
+const listCompetitorsQuerySchema = z.object({
+  categoryCode: z.string().trim().min(1).optional(),
+  club: z.string().trim().min(1).max(200).optional(),
+  missingToken: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+  q: z.string().trim().min(1).max(200).optional(),
+  sort: z.enum(['start_number', 'display_name', 'club', 'category_code']).optional().default('start_number'),
+  order: z.enum(['asc', 'desc']).optional().default('asc'),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+const updateEventSettingsSchema = z.object({
+  timeLimitPolicy: z.enum(['reject', 'fault']).optional(),
+  timeLimitFaultCode: z.string().min(1).max(20).nullable().optional(),
+});
+
+const faultCodeParamSchema = z.string().trim().min(1).max(20);
+
+const upsertFaultCodeSchema = z.object({
+  label: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  ranking: z.enum(['last', 'after_finishers']).optional().default('last'),
+  displayOrder: z.number().int().optional().default(100),
+});
+
+const categoryCodeSchema = z.enum(['N', 'M', 'S', 'R']);
+
+const createNodeSchema = z.object({
+  code: z.string().trim().min(1).max(20),
+  name: z.string().trim().min(1).max(200),
+  sequence: z.number().int().optional(),
+  isRelay: z.boolean().optional().default(false),
+  countsToOverall: z.boolean().optional().default(true),
+  maxTimeCentiseconds: z.number().int().positive().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+const updateNodeSchema = z.object({
+  code: z.string().trim().min(1).max(20).optional(),
+  name: z.string().trim().min(1).max(200).optional(),
+  sequence: z.number().int().optional(),
+  isRelay: z.boolean().optional(),
+  countsToOverall: z.boolean().optional(),
+  maxTimeCentiseconds: z.number().int().positive().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+const reorderNodesSchema = z.object({
+  nodeIds: z.array(z.string().uuid()).min(1),
+});
+
+const createCategorySchema = z.object({
+  code: categoryCodeSchema,
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(500).nullable().optional(),
+  displayOrder: z.number().int().optional().default(100),
+});
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(500).nullable().optional(),
+  displayOrder: z.number().int().optional(),
+});
+
+const categoryNodesSchema = z.object({
+  nodeIds: z.array(z.string().uuid()),
+  confirmOrphanedAttempts: z.boolean().optional().default(false),
+});
+
+const createUserSchema = z.object({
+  email: z.string().trim().email(),
+  displayName: z.string().trim().min(1).max(200),
+  role: z.enum(['admin', 'judge', 'calculator']),
+  password: z.string().min(8).max(200).optional(),
+});
+
+const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).max(200).optional(),
+  role: z.enum(['admin', 'judge', 'calculator']).optional(),
+  active: z.boolean().optional(),
+});
+
+const listUsersQuerySchema = z.object({
+  scope: z.enum(['event', 'all']).optional().default('event'),
+});
+
+const createAssignmentSchema = z
+  .object({
+    role: z.enum(['admin', 'judge', 'calculator']),
+    nodeIds: z.array(z.string().uuid()).optional().default([]),
+    allowedCategoryCodes: z.array(categoryCodeSchema).optional().default([]),
+  })
+  .refine((value) => value.role !== 'judge' || value.nodeIds.length > 0, {
+    message: 'Judge assignment needs at least one node',
+    path: ['nodeIds'],
+  });
+
+const SESSION_COLUMNS =
+  'id, user_id, event_id, role, device_info, created_ip, created_at, last_refreshed_at, expires_at, revoked_at';
+
+const listSessionsQuerySchema = z.object({
+  userId: z.string().uuid().optional(),
+  nodeId: z.string().uuid().optional(),
+});
+
+const AUDIT_COLUMNS =
+  'id, event_id, attempt_id, competitor_id, node_id, attempt_number, action, previous_value, new_value, changed_by, changed_role, changed_ip, created_at';
+
+// Exports are paged internally; small batches keep the `in (...)` lookups of names short.
+const AUDIT_EXPORT_BATCH = 200;
+const AUDIT_EXPORT_LIMIT = 20000;
+
+const listAuditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  userId: z.string().uuid().optional(),
+  role: z.enum(['admin', 'judge', 'calculator']).optional(),
+  nodeId: z.string().uuid().optional(),
+  competitorId: z.string().uuid().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  format: z.enum(['json', 'csv']).optional().default('json'),
+});
+
+type AuditFilters = z.infer<typeof listAuditQuerySchema>;
+
+const issueTokenSchema = z.object({
+  regenerate: z.boolean().optional().default(true),
+});
+
+/** Drops characters that carry meaning in PostgREST filter strings. */
+function sanitizeFilterValue(value: string) {
+  return value.replace(/[,()%*\\]/g, ' ').trim();
+}
+
+async function assertCategoryExists(eventId: string, categoryCode: string) {
+  const category = handleSupabaseMaybe<CategoryRow>(
+    await supabase
+      .from('categories')
+      .select('event_id, code')
+      .eq('event_id', eventId)
+      .eq('code', categoryCode)
+      .maybeSingle(),
+    'Category not found',
+  );
+
+  if (!category) {
+    throw new HttpError(404, 'Category not found');
+  }
+}
+
+function generateTokenCandidate(length = 8) {
+  const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+  const bytes = randomBytes(length);
+  let value = '';
+  for (let i = 0; i < length; i += 1) {
+    const index = bytes[i] % alphabet.length;
+    value += alphabet[index];
+  }
+  return value;
+}
+
+async function generateUniqueToken(eventId: string, length = 8) {
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    const candidate = generateTokenCandidate(length);
+    const existing = await supabase
+      .from('qr_tokens')
+      .select('id')
+      .eq('event_id', eventId)
+      .eq('token', candidate)
+      .maybeSingle();
+
+    if (existing.error) {
+      throw new HttpError(500, 'Failed to check token uniqueness', existing.error);
+    }
+
+    if (!existing.data) {
+      return candidate;
+    }
+  }
+  throw new HttpError(500, 'Unable to generate unique token');
+}
+
+/** Generates a fresh token and stores it on the competitor and in `qr_tokens`, without an audit entry. */
+async function storeCompetitorToken(auth: AuthContext, eventId: string, competitorId: string) {
+  const token = await generateUniqueToken(eventId);
+
+  const update = await supabase
+    .from('competitors')
+    .update({ qr_token: token, qr_token_issued_at: new Date().toISOString() })
+    .eq('id', competitorId)
+    .select('id, qr_token, qr_token_issued_at')
+    .maybeSingle();
+
+  if (update.error) {
+    throw new HttpError(500, 'Failed to store QR token', update.error);
+  }
+
+  const insert = await supabase.from('qr_tokens').insert({
+    event_id: eventId,
+    competitor_id: competitorId,
+    token,
+    issued_by: auth.userId,
+  });
+
+  if (insert.error) {
+    throw new HttpError(500, 'Failed to persist QR token', insert.error);
+  }
+
+  return token;
+}
+
+async function issueCompetitorToken(auth: AuthContext, ip: string | null, eventId: string, competitorId: string) {
+  const token = await storeCompetitorToken(auth, eventId, competitorId);
+
+  await insertAuditLog({
+    eventId,
+    competitorId,
+    action: 'token_generated',
+    newValue: { token },
+    userId: auth.userId,
+    role: auth.role,
+    ip,
+  });
+
+  return token;
+}
+
+/** Start number -> competitor name for the whole event, paged past PostgREST's row cap. */
+async function loadTakenStartNumbers(eventId: string) {
+  const competitors = await ensureAllRows<Pick<CompetitorRow, 'display_name' | 'start_number'>>(
+    (from, to) =>
+      supabase
+        .from('competitors')
+        .select('display_name, start_number')
+        .eq('event_id', eventId)
+        .not('start_number', 'is', null)
+        .order('start_number', { ascending: true })
+        .range(from, to),
+    'Failed to load competitors',
+  );
+  return new Map(competitors.map((competitor) => [competitor.start_number, competitor.display_name]));
+}
+
+type UserSummary = Omit<UserRow, 'password_hash'>;
+
+async function loadUser(userId: string) {
+  const user = handleSupabaseMaybe<UserSummary>(
+    await supabase
+      .from('users')
+      .select('id, email, display_name, role, active, last_login_at')
+      .eq('id', userId)
+      .maybeSingle(),
+    'User not found',
+  );
+
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  return user;
+}
+
+async function setCategoryFinalized(
+  auth: AuthContext,
+  ip: string | null,
+  eventId: string,
+  categoryCode: string,
+  finalize: boolean,
+) {
+  const category = handleSupabaseMaybe<CategoryRow>(
+    await supabase
+      .from('categories')
+      .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+      .eq('event_id', eventId)
+      .eq('code', categoryCode)
+      .maybeSingle(),
+    'Category not found',
+  );
+
+  if (!category) {
+    throw new HttpError(404, 'Category not found');
+  }
+
+  if (Boolean(category.finalized_at) === finalize) {
+    throw new HttpError(409, finalize ? 'Category is already finalized' : 'Category is not finalized');
+  }
+
+  const update = await supabase
+    .from('categories')
+    .update(
+      finalize
+        ? { finalized_at: new Date().toISOString(), finalized_by: auth.userId }
+        : { finalized_at: null, finalized_by: null },
+    )
+    .eq('id', category.id)
+    .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+    .maybeSingle();
+
+  if (update.error) {
+    throw new HttpError(500, 'Failed to update category', update.error);
+  }
+
+  if (!update.data) {
+    throw new HttpError(500, 'Update did not return category');
+  }
+
+  await insertAuditLog({
+    eventId,
+    action: finalize ? 'category_finalized' : 'category_reopened',
+    previousValue: category,
+    newValue: update.data,
+    userId: auth.userId,
+    role: auth.role,
+    ip,
+  });
+
+  return update.data as CategoryRow;
+}
+
+function encodeAuditCursor(entry: Pick<AttemptAuditRow, 'created_at' | 'id'>) {
+  return Buffer.from(`${entry.created_at}|${entry.id}`).toString('base64url');
+}
+
+function decodeAuditCursor(cursor: string) {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!createdAt || Number.isNaN(Date.parse(createdAt)) || !z.string().uuid().safeParse(id).success) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  return { createdAt, id };
+}
+
+/** Newest-first page of audit entries; `(created_at, id)` keyset keeps pages stable while new rows arrive. */
+async function loadAuditPage(eventId: string, filters: AuditFilters, cursor: string | undefined, limit: number) {
+  let query = supabase.from('attempt_audit_logs').select(AUDIT_COLUMNS).eq('event_id', eventId);
+
+  if (filters.action) {
+    query = query.eq('action', filters.action);
+  }
+  if (filters.userId) {
+    query = query.eq('changed_by', filters.userId);
+  }
+  if (filters.role) {
+    query = query.eq('changed_role', filters.role);
+  }
+  if (filters.nodeId) {
+    query = query.eq('node_id', filters.nodeId);
+  }
+  if (filters.competitorId) {
+    query = query.eq('competitor_id', filters.competitorId);
+  }
+  if (filters.from) {
+    query = query.gte('created_at', filters.from);
+  }
+  if (filters.to) {
+    query = query.lte('created_at', filters.to);
+  }
+
+  if (cursor) {
+    const after = decodeAuditCursor(cursor);
+    query = query.or(`created_at.lt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.lt.${after.id})`);
+  }
+
+  const rows = ensureRows<AttemptAuditRow>(
+    await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1),
+    'Failed to load audit log',
+  );
+
+  const entries = rows.slice(0, limit);
+  const last = entries[entries.length - 1];
+  return { entries, nextCursor: rows.length > limit && last ? encodeAuditCursor(last) : null };
+}
+
+async function describeAuditEntries(eventId: string, entries: AttemptAuditRow[]) {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const userNames = await loadAuditUserNames(entries.map((entry) => entry.changed_by));
+
+  const competitorIds = Array.from(
+    new Set(entries.map((entry) => entry.competitor_id).filter((id): id is string => Boolean(id))),
+  );
+  const competitors =
+    competitorIds.length === 0
+      ? []
+      : ensureRows<Pick<CompetitorRow, 'id' | 'display_name' | 'start_number'>>(
+          await supabase.from('competitors').select('id, display_name, start_number').in('id', competitorIds),
+          'Failed to load audit competitors',
+        );
+  const competitorsById = new Map(competitors.map((competitor) => [competitor.id, competitor]));
+
+  const nodes = ensureRows<Pick<NodeRow, 'id' | 'name'>>(
+    await supabase.from('nodes').select('id, name').eq('event_id', eventId),
+    'Failed to load nodes',
+  );
+  const nodeNames = new Map(nodes.map((node) => [node.id, node.name]));
+
+  return entries.map((entry) => {
+    const competitor = entry.competitor_id ? competitorsById.get(entry.competitor_id) : undefined;
+    return {
+      id: entry.id,
+      action: entry.action,
+      attemptId: entry.attempt_id,
+      attemptNumber: entry.attempt_number,
+      nodeId: entry.node_id,
+      nodeName: entry.node_id ? nodeNames.get(entry.node_id) ?? null : null,
+      competitorId: entry.competitor_id,
+      competitorName: competitor?.display_name ?? null,
+      competitorStartNumber: competitor?.start_number ?? null,
+      previousValue: entry.previous_value,
+      newValue: entry.new_value,
+      changedBy: entry.changed_by,
+      changedByName: entry.changed_by ? userNames.get(entry.changed_by) ?? null : null,
+      changedRole: entry.changed_role,
+      changedIp: entry.changed_ip ?? null,
+      createdAt: entry.created_at,
+    };
+  });
+}
+
+type AuditEntry = Awaited<ReturnType<typeof describeAuditEntries>>[number];
+
+const AUDIT_CSV_HEADER = [
+  'Čas',
+  'Akce',
+  'Uživatel',
+  'Role',
+  'IP',
+  'Uzel',
+  'Soutěžící',
+  'Startovní číslo',
+  'Pokus',
+  'Původní hodnota',
+  'Nová hodnota',
+];
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const raw = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas; notes and names come from users.
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function auditCsvRow(entry: AuditEntry) {
+  return [
+    entry.createdAt,
+    entry.action,
+    entry.changedByName ?? entry.changedBy,
+    entry.changedRole,
+    entry.changedIp,
+    entry.nodeName ?? entry.nodeId,
+    entry.competitorName ?? entry.competitorId,
+    entry.competitorStartNumber,
+    entry.attemptNumber,
+    entry.previousValue,
+    entry.newValue,
+  ]
+    .map(csvCell)
+    .join(';');
+}
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requireRole('admin'));
+
+router.get('/events/:eventId/context', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const event = handleSupabaseMaybe<EventRow>(
+      await supabase
+        .from('events')
+        .select('id, name, slug, base_path, starts_at, ends_at, time_limit_policy, time_limit_fault_code')
+        .eq('id', eventId)
+        .maybeSingle(),
+      'Event not found',
+    );
+
+    if (!event) {
+      throw new HttpError(404, 'Event not found');
+    }
+
+    const categories = ensureRows<CategoryRow>(
+      await supabase
+        .from('categories')
+        .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+        .eq('event_id', eventId)
+        .order('display_order', { ascending: true }),
+      'Failed to load categories',
+    );
+
+    const nodes = ensureRows<NodeRow>(
+      await supabase
+        .from('nodes')
+        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
+        .eq('event_id', eventId)
+        .order('sequence', { ascending: true }),
+      'Failed to load nodes',
+    );
+
+    const categoryNodes = ensureRows<{ category_code: string; node_id: string; sequence: number }>(
+      await supabase
+        .from('category_nodes')
+        .select('category_code, node_id, sequence')
+        .eq('event_id', eventId)
+        .order('sequence', { ascending: true }),
+      'Failed to load category nodes',
+    );
+
+    const faultCodes = await loadFaultCodes(eventId);
+
+    const competitorCountResponse = await supabase
+      .from('competitors')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId);
+
+    if (competitorCountResponse.error) {
+      throw new HttpError(500, 'Failed to count competitors', competitorCountResponse.error);
+    }
+
+    res.json({
+      event,
+      categories,
+      nodes,
+      categoryNodes,
+      faultCodes,
+      competitorCount: competitorCountResponse.count ?? 0,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/events/:eventId/settings', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const payload = updateEventSettingsSchema.parse(req.body ?? {});
+
+    const current = handleSupabaseMaybe<EventRow>(
+      await supabase
+        .from('events')
+        .select('id, time_limit_policy, time_limit_fault_code')
+        .eq('id', eventId)
+        .maybeSingle(),
+      'Event not found',
+    );
+
+    if (!current) {
+      throw new HttpError(404, 'Event not found');
+    }
+
+    const nextPolicy = payload.timeLimitPolicy ?? current.time_limit_policy ?? 'reject';
+    const nextFaultCode =
+      payload.timeLimitFaultCode !== undefined ? payload.timeLimitFaultCode : current.time_limit_fault_code ?? null;
+
+    if (nextPolicy === 'fault' && !nextFaultCode) {
+      throw new HttpError(400, 'Time limit fault code is required for the fault policy');
+    }
+
+    if (payload.timeLimitFaultCode) {
+      await assertFaultCodeExists(eventId, payload.timeLimitFaultCode);
+    }
+
+    const updatePayload: Record<string, unknown> = {};
+    if (payload.timeLimitPolicy !== undefined) updatePayload.time_limit_policy = payload.timeLimitPolicy;
+    if (payload.timeLimitFaultCode !== undefined) updatePayload.time_limit_fault_code = payload.timeLimitFaultCode;
+
+    const update = await supabase
+      .from('events')
+      .update(updatePayload)
+      .eq('id', eventId)
+      .select('id, name, slug, base_path, starts_at, ends_at, time_limit_policy, time_limit_fault_code')
+      .maybeSingle();
+
+    if (update.error) {
+      throw new HttpError(500, 'Failed to update event settings', update.error);
+    }
+
+    res.json({ event: update.data as EventRow | null });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/nodes', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const payload = createNodeSchema.parse(req.body ?? {});
+
+    let sequence = payload.sequence;
+    if (sequence === undefined) {
+      const last = handleSupabaseMaybe<Pick<NodeRow, 'sequence'>>(
+        await supabase
+          .from('nodes')
+          .select('sequence')
+          .eq('event_id', eventId)
+          .order('sequence', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        'Failed to load nodes',
+      );
+      sequence = (last?.sequence ?? 0) + 10;
+    }
+
+    const insert = await supabase
+      .from('nodes')
+      .insert({
+        event_id: eventId,
+        code: payload.code,
+        name: payload.name,
+        sequence,
+        is_relay: payload.isRelay,
+        counts_to_overall: payload.countsToOverall,
+        max_time_centiseconds: payload.maxTimeCentiseconds ?? null,
+        note: payload.note ?? null,
+      })
+      .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
+      .maybeSingle();
+
+    if (insert.error) {
+      if (insert.error.code === '23505') {
+        throw new HttpError(409, 'Node with this code already exists', insert.error);
+      }
+      throw new HttpError(500, 'Failed to create node', insert.error);
+    }
+
+    const node = insert.data as NodeRow | null;
+    if (node) {
+      await insertAuditLog({
+        eventId,
+        nodeId: node.id,
+        action: 'node_created',
+        newValue: node,
+        userId: req.auth.userId,
+        role: req.auth.role,
+        ip: req.ip ?? null,
+      });
+    }
+
+    res.status(201).json({ node });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/nodes/reorder', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const { nodeIds } = reorderNodesSchema.parse(req.body ?? {});
+
+    const existing = ensureRows<Pick<NodeRow, 'id'>>(
+      await supabase.from('nodes').select('id').eq('event_id', eventId).order('sequence', { ascending: true }),
+      'Failed to load nodes',
+    );
+    const existingIds = new Set(existing.map((node) => node.id));
+    if (nodeIds.length !== existingIds.size || nodeIds.some((id) => !existingIds.has(id))) {
+      throw new HttpError(422, 'Reorder must list every node of the event exactly once');
+    }
+
+    // Category mappings follow the node order so every category lists its nodes in course order.
+    const reorder = await supabase.rpc('reorder_nodes', { p_event_id: eventId, p_node_ids: nodeIds });
+    if (reorder.error) {
+      throw new HttpError(500, 'Failed to reorder nodes', reorder.error);
+    }
+
+    await insertAuditLog({
+      eventId,
+      action: 'nodes_reordered',
+      previousValue: { nodeIds: existing.map((node) => node.id) },
+      newValue: { nodeIds },
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    const nodes = ensureRows<NodeRow>(
+      await supabase
+        .from('nodes')
+        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
+        .eq('event_id', eventId)
+        .order('sequence', { ascending: true }),
+      'Failed to load nodes',
+    );
+
+    res.json({ nodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/events/:eventId/nodes/:nodeId', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const nodeId = z.string().uuid().parse(req.params.nodeId);
+    const payload = updateNodeSchema.parse(req.body ?? {});
+
+    const updatePayload: Record<string, unknown> = {};
+    if (payload.code !== undefined) updatePayload.code = payload.code;
+    if (payload.name !== undefined) updatePayload.name = payload.name;
+    if (payload.sequence !== undefined) updatePayload.sequence = payload.sequence;
+    if (payload.isRelay !== undefined) updatePayload.is_relay = payload.isRelay;
+    if (payload.countsToOverall !== undefined) updatePayload.counts_to_overall = payload.countsToOverall;
+    if (payload.maxTimeCentiseconds !== undefined) updatePayload.max_time_centiseconds = payload.maxTimeCentiseconds;
+    if (payload.note !== undefined) updatePayload.note = payload.note;
+
+    if (Object.keys(updatePayload).length === 0) {
+      throw new HttpError(400, 'No changes provided');
+    }
+
+    const previous = handleSupabaseMaybe<NodeRow>(
+      await supabase
+        .from('nodes')
+        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
+        .eq('id', nodeId)
+        .eq('event_id', eventId)
+        .maybeSingle(),
+      'Failed to load node',
+    );
+
+    if (!previous) {
+      throw new HttpError(404, 'Node not found');
+    }
+
+    const update = await supabase
+      .from('nodes')
+      .update(updatePayload)
+      .eq('id', nodeId)
+      .eq('event_id', eventId)
+      .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
+      .maybeSingle();
+
+    if (update.error) {
+      if (update.error.code === '23505') {
+        throw new HttpError(409, 'Node with this code already exists', update.error);
+      }
+      throw new HttpError(500, 'Failed to update node', update.error);
+    }
+
+    if (!update.data) {
+      throw new HttpError(404, 'Node not found');
+    }
+
+    await insertAuditLog({
+      eventId,
+      nodeId,
+      action: 'node_updated',
+      previousValue: previous,
+      newValue: update.data,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ node: update.data as NodeRow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/events/:eventId/nodes/:nodeId', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const nodeId = z.string().uuid().parse(req.params.nodeId);
+
+    // Attempts cascade with their node, so a node with results can never be removed from here.
+    const usage = await supabase
+      .from('attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('node_id', nodeId);
+
+    if (usage.error) {
+      throw new HttpError(500, 'Failed to check node usage', usage.error);
+    }
+
+    if ((usage.count ?? 0) > 0) {
+      throw new HttpError(409, 'Node has recorded attempts', { attempts: usage.count });
+    }
+
+    // Judge assignments would cascade too and leave the judge without a node; unassign them first.
+    const judges = await supabase
+      .from('user_event_roles')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('node_id', nodeId);
+
+    if (judges.error) {
+      throw new HttpError(500, 'Failed to check node assignments', judges.error);
+    }
+
+    if ((judges.count ?? 0) > 0) {
+      throw new HttpError(409, 'Node has assigned judges', { assignments: judges.count });
+    }
+
+    const removal = await supabase
+      .from('nodes')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('id', nodeId)
+      .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note');
+
+    if (removal.error) {
+      throw new HttpError(500, 'Failed to delete node', removal.error);
+    }
+
+    if (!removal.data?.length) {
+      throw new HttpError(404, 'Node not found');
+    }
+
+    // The node row is gone, so the entry cannot reference it; its id stays in the previous value.
+    await insertAuditLog({
+      eventId,
+      action: 'node_deleted',
+      previousValue: removal.data[0],
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/categories', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const payload = createCategorySchema.parse(req.body ?? {});
+
+    const insert = await supabase
+      .from('categories')
+      .insert({
+        event_id: eventId,
+        code: payload.code,
+        name: payload.name,
+        description: payload.description ?? null,
+        display_order: payload.displayOrder,
+      })
+      .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+      .maybeSingle();
+
+    if (insert.error) {
+      if (insert.error.code === '23505') {
+        throw new HttpError(409, 'Category with this code already exists', insert.error);
+      }
+      throw new HttpError(500, 'Failed to create category', insert.error);
+    }
+
+    const category = insert.data as CategoryRow | null;
+    if (category) {
+      await insertAuditLog({
+        eventId,
+        action: 'category_created',
+        newValue: category,
+        userId: req.auth.userId,
+        role: req.auth.role,
+        ip: req.ip ?? null,
+      });
+    }
+
+    res.status(201).json({ category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/events/:eventId/categories/:categoryCode', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const categoryCode = categoryCodeSchema.parse(req.params.categoryCode);
+    const payload = updateCategorySchema.parse(req.body ?? {});
+
+    const updatePayload: Record<string, unknown> = {};
+    if (payload.name !== undefined) updatePayload.name = payload.name;
+    if (payload.description !== undefined) updatePayload.description = payload.description;
+    if (payload.displayOrder !== undefined) updatePayload.display_order = payload.displayOrder;
+
+    if (Object.keys(updatePayload).length === 0) {
+      throw new HttpError(400, 'No changes provided');
+    }
+
+    const previous = handleSupabaseMaybe<CategoryRow>(
+      await supabase
+        .from('categories')
+        .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+        .eq('event_id', eventId)
+        .eq('code', categoryCode)
+        .maybeSingle(),
+      'Failed to load category',
+    );
+
+    if (!previous) {
+      throw new HttpError(404, 'Category not found');
+    }
+
+    const update = await supabase
+      .from('categories')
+      .update(updatePayload)
+      .eq('event_id', eventId)
+      .eq('code', categoryCode)
+      .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by')
+      .maybeSingle();
+
+    if (update.error) {
+      throw new HttpError(500, 'Failed to update category', update.error);
+    }
+
+    if (!update.data) {
+      throw new HttpError(404, 'Category not found');
+    }
+
+    await insertAuditLog({
+      eventId,
+      action: 'category_updated',
+      previousValue: previous,
+      newValue: update.data,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ category: update.data as CategoryRow });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/events/:eventId/categories/:categoryCode', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const categoryCode = categoryCodeSchema.parse(req.params.categoryCode);
+
+    // Competitors (and with them their attempts) cascade with the category.
+    const usage = await supabase
+      .from('competitors')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('category_code', categoryCode);
+
+    if (usage.error) {
+      throw new HttpError(500, 'Failed to check category usage', usage.error);
+    }
+
+    if ((usage.count ?? 0) > 0) {
+      throw new HttpError(409, 'Category has registered competitors', { competitors: usage.count });
+    }
+
+    const removal = await supabase
+      .from('categories')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('code', categoryCode)
+      .select('id, event_id, code, name, description, display_order, finalized_at, finalized_by');
+
+    if (removal.error) {
+      throw new HttpError(500, 'Failed to delete category', removal.error);
+    }
+
+    if (!removal.data?.length) {
+      throw new HttpError(404, 'Category not found');
+    }
+
+    await insertAuditLog({
+      eventId,
+      action: 'category_deleted',
+      previousValue: removal.data[0],
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/events/:eventId/categories/:categoryCode/nodes', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const categoryCode = categoryCodeSchema.parse(req.params.categoryCode);
+    const { nodeIds, confirmOrphanedAttempts } = categoryNodesSchema.parse(req.body ?? {});
+
+    await assertCategoryExists(eventId, categoryCode);
+    await assertCategoryOpen(eventId, categoryCode);
+
+    const nodes = ensureRows<Pick<NodeRow, 'id' | 'sequence'>>(
+      await supabase.from('nodes').select('id, sequence').eq('event_id', eventId),
+      'Failed to load nodes',
+    );
+    const sequenceByNode = new Map(nodes.map((node) => [node.id, node.sequence]));
+    const unknown = nodeIds.filter((id) => !sequenceByNode.has(id));
+    if (unknown.length > 0) {
+      throw new HttpError(422, 'Unknown node', { nodeIds: unknown });
+    }
+
+    const current = await loadCategoryNodeIds(eventId, categoryCode);
+    const removed = current.filter((id) => !nodeIds.includes(id));
+
+    if (removed.length > 0) {
+      // Unmapped attempts stay in the database but drop out of the results, so make the admin confirm it.
+      const competitors = await ensureAllRows<Pick<CompetitorRow, 'id'>>(
+        (from, to) =>
+          supabase
+            .from('competitors')
+            .select('id')
+            .eq('event_id', eventId)
+            .eq('category_code', categoryCode)
+            .order('id', { ascending: true })
+            .range(from, to),
+        'Failed to load competitors',
+      );
+
+      const attempts =
+        competitors.length === 0
+          ? []
+          : await ensureAllRows<{ node_id: string }>(
+              (from, to) =>
+                supabase
+                  .from('attempts')
+                  .select('node_id')
+                  .eq('event_id', eventId)
+                  .in('node_id', removed)
+                  .in('competitor_id', competitors.map((competitor) => competitor.id))
+                  .order('id', { ascending: true })
+                  .range(from, to),
+              'Failed to load attempts',
+            );
+
+      const orphaned = new Map<string, number>();
+      for (const attempt of attempts) {
+        orphaned.set(attempt.node_id, (orphaned.get(attempt.node_id) ?? 0) + 1);
+      }
+
+      if (orphaned.size > 0 && !confirmOrphanedAttempts) {
+        throw new HttpError(409, 'Removing nodes would orphan recorded attempts', {
+          nodes: Array.from(orphaned, ([nodeId, attemptCount]) => ({ nodeId, attempts: attemptCount })),
+        });
+      }
+
+      const removal = await supabase
+        .from('category_nodes')
+        .delete()
+        .eq('event_id', eventId)
+        .eq('category_code', categoryCode)
+        .in('node_id', removed);
+
+      if (removal.error) {
+        throw new HttpError(500, 'Failed to remove category nodes', removal.error);
+      }
+    }
+
+    if (nodeIds.length > 0) {
+      const upsert = await supabase.from('category_nodes').upsert(
+        nodeIds.map((nodeId) => ({
+          event_id: eventId,
+          category_code: categoryCode,
+          node_id: nodeId,
+          sequence: sequenceByNode.get(nodeId),
+        })),
+        { onConflict: 'event_id,category_code,node_id' },
+      );
+
+      if (upsert.error) {
+        throw new HttpError(500, 'Failed to save category nodes', upsert.error);
+      }
+    }
+
+    const saved = await loadCategoryNodeIds(eventId, categoryCode);
+
+    await insertAuditLog({
+      eventId,
+      action: 'category_nodes_updated',
+      previousValue: { categoryCode, nodeIds: current },
+      newValue: { categoryCode, nodeIds: saved },
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ categoryCode, nodeIds: saved });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/categories/:categoryCode/finalize', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const categoryCode = z.string().min(1).parse(req.params.categoryCode);
+    const category = await setCategoryFinalized(req.auth, req.ip ?? null, eventId, categoryCode, true);
+
+    res.json({ category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/categories/:categoryCode/reopen', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const categoryCode = z.string().min(1).parse(req.params.categoryCode);
+    const category = await setCategoryFinalized(req.auth, req.ip ?? null, eventId, categoryCode, false);
+
+    res.json({ category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/events/:eventId/users', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const { scope } = listUsersQuerySchema.parse(req.query);
+
+    const assignments = ensureRows<UserEventRoleRow>(
+      await supabase
+        .from('user_event_roles')
+        .select('id, user_id, event_id, role, node_id, allowed_category_codes')
+        .eq('event_id', eventId),
+      'Failed to load user assignments',
+    );
+
+    // Accounts are global; `scope=all` is for picking someone who is not in this event yet.
+    let usersQuery = supabase.from('users').select('id, email, display_name, role, active, last_login_at');
+    if (scope === 'event') {
+      const userIds = Array.from(new Set(assignments.map((assignment) => assignment.user_id)));
+      if (userIds.length === 0) {
+        res.json({ users: [] });
+        return;
+      }
+      usersQuery = usersQuery.in('id', userIds);
+    }
+
+    const users = ensureRows<UserSummary>(
+      await usersQuery.order('display_name', { ascending: true }),
+      'Failed to load users',
+    );
+
+    res.json({
+      users: users.map((user) => ({
+        ...user,
+        assignments: assignments.filter((assignment) => assignment.user_id === user.id),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/users', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const payload = createUserSchema.parse(req.body ?? {});
+    const password = payload.password ?? generatePassword();
+
+    const insert = await supabase
+      .from('users')
+      .insert({
+        email: payload.email.toLowerCase(),
+        display_name: payload.displayName,
+        role: payload.role,
+        password_hash: await hashPassword(password),
+      })
+      .select('id, email, display_name, role, active, last_login_at')
+      .maybeSingle();
+
+    if (insert.error) {
+      if (insert.error.code === '23505') {
+        throw new HttpError(409, 'User with this email already exists', insert.error);
+      }
+      throw new HttpError(500, 'Failed to create user', insert.error);
+    }
+
+    const user = insert.data as UserSummary | null;
+    if (!user) {
+      throw new HttpError(500, 'Failed to create user');
+    }
+
+    await insertAuditLog({
+      eventId,
+      action: 'user_created',
+      newValue: user,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    // A generated password is returned exactly once so the admin can hand it over.
+    res.status(201).json({ user, password: payload.password ? null : password });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/events/:eventId/users/:userId', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const userId = z.string().uuid().parse(req.params.userId);
+    const payload = updateUserSchema.parse(req.body ?? {});
+
+    if (userId === req.auth.userId && (payload.active === false || (payload.role && payload.role !== 'admin'))) {
+      throw new HttpError(409, 'You cannot deactivate or demote yourself');
+    }
+
+    const current = await loadUser(userId);
+
+    const updatePayload: Record<string, unknown> = {};
+    if (payload.displayName !== undefined) updatePayload.display_name = payload.displayName;
+    if (payload.role !== undefined) updatePayload.role = payload.role;
+    if (payload.active !== undefined) updatePayload.active = payload.active;
+
+    if (Object.keys(updatePayload).length === 0) {
+      throw new HttpError(400, 'No changes provided');
+    }
+
+    const update = await supabase
+      .from('users')
+      .update(updatePayload)
+      .eq('id', userId)
+      .select('id, email, display_name, role, active, last_login_at')
+      .maybeSingle();
+
+    if (update.error) {
+      throw new HttpError(500, 'Failed to update user', update.error);
+    }
+
+    if (!update.data) {
+      throw new HttpError(500, 'Update did not return user');
+    }
+
+    // Devices keep working with their refresh tokens otherwise, so deactivation and role changes log them out.
+    const deactivated = current.active && payload.active === false;
+    const roleChanged = payload.role !== undefined && payload.role !== current.role;
+    const revokedSessions = deactivated || roleChanged ? await revokeUserSessions(userId) : [];
+
+    await insertAuditLog({
+      eventId,
+      action: 'user_updated',
+      previousValue: current,
+      newValue: { ...update.data, revokedSessions: revokedSessions.length },
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ user: update.data as UserSummary });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/users/:userId/password-reset', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const userId = z.string().uuid().parse(req.params.userId);
+    const user = await loadUser(userId);
+    const password = generatePassword();
+
+    const update = await supabase
+      .from('users')
+      .update({ password_hash: await hashPassword(password) })
+      .eq('id', userId);
+
+    if (update.error) {
+      throw new HttpError(500, 'Failed to reset password', update.error);
+    }
+
+    const revokedSessions = await revokeUserSessions(userId);
+
+    await insertAuditLog({
+      eventId,
+      action: 'user_password_reset',
+      newValue: { id: user.id, email: user.email, revokedSessions: revokedSessions.length },
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ password });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/users/:userId/assignments', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const userId = z.string().uuid().parse(req.params.userId);
+    const payload = createAssignmentSchema.parse(req.body ?? {});
+    const user = await loadUser(userId);
+
+    // Intentional: an account works in exactly one role (login resolves assignments for `users.role`
+    // only), so a judge who also helps in the office needs a second account, not an extra grant here.
+    if (payload.role !== user.role) {
+      throw new HttpError(400, 'Assignment role must match the user role');
+    }
+
+    if (payload.nodeIds.length > 0) {
+      const nodes = ensureRows<Pick<NodeRow, 'id'>>(
+        await supabase.from('nodes').select('id').eq('event_id', eventId).in('id', payload.nodeIds),
+        'Failed to load nodes',
+      );
+      if (nodes.length !== new Set(payload.nodeIds).size) {
+        throw new HttpError(422, 'Unknown node');
+      }
+    }
+
+    if (payload.allowedCategoryCodes.length > 0) {
+      const categories = ensureRows<Pick<CategoryRow, 'code'>>(
+        await supabase.from('categories').select('code').eq('event_id', eventId),
+        'Failed to load categories',
+      );
+      const known = new Set(categories.map((category) => category.code));
+      const unknown = payload.allowedCategoryCodes.filter((code) => !known.has(code));
+      if (unknown.length > 0) {
+        throw new HttpError(400, 'Unknown category', { categoryCodes: unknown });
+      }
+    }
+
+    const nodeIds = payload.role === 'judge' ? Array.from(new Set(payload.nodeIds)) : [null];
+
+    // Calculator and admin rows have no node, so one such row per user and role is the whole grant.
+    const existing = ensureRows<Pick<UserEventRoleRow, 'node_id'>>(
+      await supabase
+        .from('user_event_roles')
+        .select('node_id')
+        .eq('user_id', userId)
+        .eq('event_id', eventId)
+        .eq('role', payload.role),
+      'Failed to load user assignments',
+    );
+    const assigned = new Set(existing.map((assignment) => assignment.node_id));
+    const duplicates = nodeIds.filter((nodeId) => assigned.has(nodeId));
+    if (duplicates.length > 0) {
+      throw new HttpError(409, 'User already has this assignment', { nodeIds: duplicates });
+    }
+
+    const insert = await supabase
+      .from('user_event_roles')
+      .insert(
+        nodeIds.map((nodeId) => ({
+          user_id: userId,
+          event_id: eventId,
+          role: payload.role,
+          node_id: nodeId,
+          allowed_category_codes: payload.allowedCategoryCodes,
+        })),
+      )
+      .select('id, user_id, event_id, role, node_id, allowed_category_codes');
+
+    if (insert.error) {
+      if (insert.error.code === '23505') {
+        throw new HttpError(409, 'User already has this assignment', insert.error);
+      }
+      throw new HttpError(500, 'Failed to create assignment', insert.error);
+    }
+
+    invalidateAssignments(userId);
+
+    const assignments = (insert.data ?? []) as UserEventRoleRow[];
+    for (const assignment of assignments) {
+      await insertAuditLog({
+        eventId,
+        nodeId: assignment.node_id,
+        action: 'role_assigned',
+        newValue: assignment,
+        userId: req.auth.userId,
+        role: req.auth.role,
+        ip: req.ip ?? null,
+      });
+    }
+
+    res.status(201).json({ assignments });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/events/:eventId/assignments/:assignmentId', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const assignmentId = z.string().uuid().parse(req.params.assignmentId);
+
+    const removal = await supabase
+      .from('user_event_roles')
+      .delete()
+      .eq('id', assignmentId)
+      .eq('event_id', eventId)
+      .select('id, user_id, event_id, role, node_id, allowed_category_codes')
+      .maybeSingle();
+
+    if (removal.error) {
+      throw new HttpError(500, 'Failed to remove assignment', removal.error);
+    }
+
+    const assignment = removal.data as UserEventRoleRow | null;
+    if (!assignment) {
+      throw new HttpError(404, 'Assignment not found');
+    }
+
+    invalidateAssignments(assignment.user_id);
+
+    await insertAuditLog({
+      eventId,
+      nodeId: assignment.node_id,
+      action: 'role_unassigned',
+      previousValue: assignment,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/events/:eventId/sessions', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const filters = listSessionsQuerySchema.parse(req.query);
+
+    const assignments = ensureRows<Pick<UserEventRoleRow, 'user_id' | 'node_id'>>(
+      await supabase.from('user_event_roles').select('user_id, node_id').eq('event_id', eventId),
+      'Failed to load user assignments',
+    );
+
+    let query = supabase
+      .from('user_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('event_id', eventId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.nodeId) {
+      const userIds = Array.from(
+        new Set(assignments.filter((entry) => entry.node_id === filters.nodeId).map((entry) => entry.user_id)),
+      );
+      if (userIds.length === 0) {
+        res.json({ sessions: [] });
+        return;
+      }
+      query = query.in('user_id', userIds);
+    }
+
+    const sessions = ensureRows<Omit<UserSessionRow, 'refresh_token_hash'>>(await query, 'Failed to load sessions');
 
-async function assertCategoryExists(eventId: string, categoryCode: string) {
-  const category = handleSupabaseMaybe<CategoryRow>(
-    await supabase
-      .from('categories')
-      .select('event_id, code')
-      .eq('event_id', eventId)
-      .eq('code', categoryCode)
-      .maybeSingle(),
-    'Category not found',
-  );
+    const users = sessions.length
+      ? ensureRows<Pick<UserRow, 'id' | 'email' | 'display_name'>>(
+          await supabase
+            .from('users')
+            .select('id, email, display_name')
+            .in('id', Array.from(new Set(sessions.map((session) => session.user_id)))),
+          'Failed to load users',
+        )
+      : [];
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const currentSessionId = req.auth.sessionId;
 
-  if (!category) {
-    throw new HttpError(404, 'Category not found');
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        user: usersById.get(session.user_id) ?? null,
+        current: session.id === currentSessionId,
+        nodeIds: assignments
+          .filter((entry) => entry.user_id === session.user_id && entry.node_id)
+          .map((entry) => entry.node_id),
+      })),
+    });
+  } catch (error) {
+    next(error);
   }
-}
+});
 
-function generateTokenCandidate(length = 8) {
-  const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
-  const bytes = randomBytes(length);
-  let value = '';
-  for (let i = 0; i < length; i += 1) {
-    const index = bytes[i] % alphabet.length;
-    value += alphabet[index];
-  }
-  return value;
-}
+router.post('/events/:eventId/sessions/:sessionId/revoke', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
 
-async function generateUniqueToken(eventId: string, length = 8) {
-  for (let attempt = 0; attempt < 50; attempt += 1) {
-    const candidate = generateTokenCandidate(length);
-    const existing = await supabase
-      .from('qr_tokens')
-      .select('id')
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const sessionId = z.string().uuid().parse(req.params.sessionId);
+
+    const update = await supabase
+      .from('user_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', sessionId)
       .eq('event_id', eventId)
-      .eq('token', candidate)
+      .is('revoked_at', null)
+      .select(SESSION_COLUMNS)
       .maybeSingle();
 
-    if (existing.error) {
-      throw new HttpError(500, 'Failed to check token uniqueness', existing.error);
+    if (update.error) {
+      throw new HttpError(500, 'Failed to revoke session', update.error);
     }
 
-    if (!existing.data) {
-      return candidate;
+    if (!update.data) {
+      throw new HttpError(404, 'Active session not found');
+    }
+
+    markSessionsRevoked([sessionId]);
+
+    await insertAuditLog({
+      eventId,
+      action: 'session_revoked',
+      previousValue: update.data,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/events/:eventId/users/:userId/sessions/revoke', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const userId = z.string().uuid().parse(req.params.userId);
+    const user = await loadUser(userId);
+    const revokedSessions = await revokeUserSessions(userId, eventId);
+
+    if (revokedSessions.length > 0) {
+      await insertAuditLog({
+        eventId,
+        action: 'session_revoked',
+        previousValue: { userId: user.id, email: user.email, sessionIds: revokedSessions },
+        userId: req.auth.userId,
+        role: req.auth.role,
+        ip: req.ip ?? null,
+      });
     }
+
+    res.json({ revoked: revokedSessions.length });
+  } catch (error) {
+    next(error);
   }
-  throw new HttpError(500, 'Unable to generate unique token');
-}
+});
 
-const router = Router();
+router.put('/events/:eventId/fault-codes/:code', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
 
-router.use(authenticate);
-router.use(requireRole('admin'));
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
 
-router.get('/events/:eventId/context', async (req, res, next) => {
+    const code = faultCodeParamSchema.parse(req.params.code);
+    const payload = upsertFaultCodeSchema.parse(req.body ?? {});
+
+    const upsert = await supabase
+      .from('fault_codes')
+      .upsert(
+        {
+          event_id: eventId,
+          code,
+          label: payload.label,
+          description: payload.description ?? null,
+          ranking: payload.ranking,
+          display_order: payload.displayOrder,
+        },
+        { onConflict: 'event_id,code' },
+      )
+      .select('id, event_id, code, label, description, ranking, display_order')
+      .maybeSingle();
+
+    if (upsert.error) {
+      throw new HttpError(500, 'Failed to save fault code', upsert.error);
+    }
+
+    res.json({ faultCode: upsert.data as FaultCodeRow | null });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/events/:eventId/fault-codes/:code', async (req, res, next) => {
   try {
     if (!req.auth) {
       throw new HttpError(401, 'Unauthorized');
@@ -96,51 +1834,98 @@ router.get('/events/:eventId/context', async (req, res, next) => {
       throw new HttpError(403, 'Access to this event is not permitted');
     }
 
+    const code = faultCodeParamSchema.parse(req.params.code);
+
+    const usage = await supabase
+      .from('attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('event_id', eventId)
+      .eq('fault_code', code);
+
+    if (usage.error) {
+      throw new HttpError(500, 'Failed to check fault code usage', usage.error);
+    }
+
+    if ((usage.count ?? 0) > 0) {
+      throw new HttpError(409, 'Fault code is used by recorded attempts', { attempts: usage.count });
+    }
+
     const event = handleSupabaseMaybe<EventRow>(
-      await supabase
-        .from('events')
-        .select('id, name, slug, base_path, starts_at, ends_at')
-        .eq('id', eventId)
-        .maybeSingle(),
+      await supabase.from('events').select('id, time_limit_fault_code').eq('id', eventId).maybeSingle(),
       'Event not found',
     );
 
-    if (!event) {
-      throw new HttpError(404, 'Event not found');
+    if (event?.time_limit_fault_code === code) {
+      throw new HttpError(409, 'Fault code is used as the time limit fault');
     }
 
-    const categories = ensureRows<CategoryRow>(
-      await supabase
-        .from('categories')
-        .select('id, event_id, code, name, description, display_order')
-        .eq('event_id', eventId)
-        .order('display_order', { ascending: true }),
-      'Failed to load categories',
-    );
+    const removal = await supabase.from('fault_codes').delete().eq('event_id', eventId).eq('code', code);
 
-    const nodes = ensureRows<NodeRow>(
-      await supabase
-        .from('nodes')
-        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
-        .eq('event_id', eventId)
-        .order('sequence', { ascending: true }),
-      'Failed to load nodes',
-    );
+    if (removal.error) {
+      throw new HttpError(500, 'Failed to delete fault code', removal.error);
+    }
 
-    const competitorCountResponse = await supabase
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/events/:eventId/competitors', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
+
+    const filters = listCompetitorsQuerySchema.parse(req.query);
+    const from = (filters.page - 1) * filters.pageSize;
+
+    let query = supabase
       .from('competitors')
-      .select('id', { count: 'exact', head: true })
+      .select(
+        'id, event_id, category_code, display_name, club, start_number, birth_year, notes, qr_token, qr_token_issued_at',
+        { count: 'exact' },
+      )
       .eq('event_id', eventId);
 
-    if (competitorCountResponse.error) {
-      throw new HttpError(500, 'Failed to count competitors', competitorCountResponse.error);
+    if (filters.categoryCode) {
+      query = query.eq('category_code', filters.categoryCode);
+    }
+    if (filters.club) {
+      query = query.ilike('club', `%${sanitizeFilterValue(filters.club)}%`);
+    }
+    if (filters.missingToken) {
+      query = query.is('qr_token', null);
+    }
+    if (filters.q) {
+      const text = sanitizeFilterValue(filters.q);
+      const conditions = [`display_name.ilike.%${text}%`, `club.ilike.%${text}%`, `qr_token.ilike.${text}`];
+      if (/^\d+$/.test(text)) {
+        conditions.push(`start_number.eq.${text}`);
+      }
+      query = query.or(conditions.join(','));
+    }
+
+    const response = await query
+      .order(filters.sort, { ascending: filters.order === 'asc', nullsFirst: false })
+      .order('display_name', { ascending: true })
+      .range(from, from + filters.pageSize - 1);
+
+    // PostgREST answers a page past the end with PGRST103; report it as an empty page instead.
+    if (response.error && response.error.code !== 'PGRST103') {
+      throw new HttpError(500, 'Failed to load competitors', response.error);
     }
 
     res.json({
-      event,
-      categories,
-      nodes,
-      competitorCount: competitorCountResponse.count ?? 0,
+      competitors: (response.error ? [] : response.data ?? []) as CompetitorRow[],
+      total: response.count ?? 0,
+      page: filters.page,
+      pageSize: filters.pageSize,
     });
   } catch (error) {
     next(error);
@@ -185,42 +1970,19 @@ router.post('/events/:eventId/competitors', async (req, res, next) => {
       throw new HttpError(500, 'Failed to create competitor');
     }
 
-    let token: string | null = null;
-    if (payload.generateToken) {
-      token = await generateUniqueToken(eventId);
-
-      const update = await supabase
-        .from('competitors')
-        .update({ qr_token: token, qr_token_issued_at: new Date().toISOString() })
-        .eq('id', competitor.id)
-        .select('id, qr_token, qr_token_issued_at')
-        .maybeSingle();
-
-      if (update.error) {
-        throw new HttpError(500, 'Failed to assign QR token', update.error);
-      }
-
-      const tokenInsert = await supabase.from('qr_tokens').insert({
-        event_id: eventId,
-        competitor_id: competitor.id,
-        token,
-        issued_by: req.auth.userId,
-      });
-
-      if (tokenInsert.error) {
-        throw new HttpError(500, 'Failed to persist QR token', tokenInsert.error);
-      }
+    await insertAuditLog({
+      eventId,
+      competitorId: competitor.id,
+      action: 'competitor_created',
+      newValue: competitor,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
 
-      await insertAuditLog({
-        eventId,
-        competitorId: competitor.id,
-        action: 'token_generated',
-        newValue: { token },
-        userId: req.auth.userId,
-        role: req.auth.role,
-        ip: req.ip ?? null,
-      });
-    }
+    const token = payload.generateToken
+      ? await issueCompetitorToken(req.auth, req.ip ?? null, eventId, competitor.id)
+      : null;
 
     res.status(201).json({
       competitor: {
@@ -233,6 +1995,175 @@ router.post('/events/:eventId/competitors', async (req, res, next) => {
   }
 });
 
+router.post(
+  '/events/:eventId/competitors/import',
+  express.raw({ type: () => true, limit: '5mb' }),
+  async (req, res, next) => {
+    try {
+      if (!req.auth) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      const eventId = z.string().uuid().parse(req.params.eventId);
+      if (eventId !== req.auth.eventId) {
+        throw new HttpError(403, 'Access to this event is not permitted');
+      }
+
+      const { dryRun, generateTokens } = importQuerySchema.parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new HttpError(400, 'Import file is required');
+      }
+
+      const imported = await parseCompetitorSheet(req.body);
+
+      // Same rule as assertCategoryExists, checked against one query instead of one per row.
+      const categoryCodes = new Set(
+        ensureRows<Pick<CategoryRow, 'code'>>(
+          await supabase.from('categories').select('code').eq('event_id', eventId),
+          'Failed to load categories',
+        ).map((category) => category.code),
+      );
+
+      const takenStartNumbers = await loadTakenStartNumbers(eventId);
+      const fileStartNumbers = new Map<number, number>();
+
+      const rows = imported.map(({ row, values }) => {
+        const parsed = importRowSchema.safeParse({
+          displayName: values.displayName,
+          categoryCode: values.categoryCode?.toUpperCase(),
+          club: values.club,
+          startNumber: values.startNumber !== undefined ? Number(values.startNumber) : undefined,
+          birthYear: values.birthYear !== undefined ? Number(values.birthYear) : undefined,
+          notes: values.notes,
+        });
+
+        if (!parsed.success) {
+          return {
+            row,
+            competitor: null,
+            errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+          };
+        }
+
+        const competitor = parsed.data;
+        const errors: string[] = [];
+        if (!categoryCodes.has(competitor.categoryCode)) {
+          errors.push(`Category not found: ${competitor.categoryCode}`);
+        }
+        if (competitor.startNumber !== undefined) {
+          const takenBy = takenStartNumbers.get(competitor.startNumber);
+          const repeatedOn = fileStartNumbers.get(competitor.startNumber);
+          if (takenBy) {
+            errors.push(`Start number ${competitor.startNumber} is already used by ${takenBy}`);
+          } else if (repeatedOn !== undefined) {
+            errors.push(`Start number ${competitor.startNumber} is already used on row ${repeatedOn}`);
+          } else {
+            fileStartNumbers.set(competitor.startNumber, row);
+          }
+        }
+
+        return { row, competitor, errors };
+      });
+
+      const invalid = rows.filter((row) => row.errors.length > 0).length;
+      const report = {
+        dryRun,
+        summary: { total: rows.length, valid: rows.length - invalid, invalid },
+        rows,
+      };
+
+      if (dryRun) {
+        res.json(report);
+        return;
+      }
+
+      if (invalid > 0) {
+        throw new HttpError(422, 'Import contains invalid rows', report);
+      }
+      if (rows.length === 0) {
+        throw new HttpError(422, 'Import file contains no competitors');
+      }
+
+      const competitors = rows.map(({ row, competitor }) => {
+        if (!competitor) {
+          throw new HttpError(422, `Row ${row} could not be parsed`, report);
+        }
+        return competitor;
+      });
+
+      const insert = await supabase
+        .from('competitors')
+        .insert(
+          competitors.map((competitor) => ({
+            event_id: eventId,
+            category_code: competitor.categoryCode,
+            display_name: competitor.displayName,
+            club: competitor.club ?? null,
+            start_number: competitor.startNumber ?? null,
+            birth_year: competitor.birthYear ?? null,
+            notes: competitor.notes ?? null,
+          })),
+        )
+        .select('id, event_id, category_code, display_name, club, start_number, birth_year, notes, qr_token');
+
+      if (insert.error) {
+        if (insert.error.code === '23505') {
+          throw new HttpError(409, 'Competitor with this start number already exists', insert.error);
+        }
+        throw new HttpError(500, 'Failed to import competitors', insert.error);
+      }
+
+      const created = (insert.data ?? []) as CompetitorRow[];
+
+      // The import is all or nothing: if any token cannot be stored, the inserted competitors go away again.
+      if (generateTokens) {
+        try {
+          for (const competitor of created) {
+            competitor.qr_token = await storeCompetitorToken(req.auth, eventId, competitor.id);
+          }
+        } catch (error) {
+          const rollback = await supabase
+            .from('competitors')
+            .delete()
+            .in('id', created.map((competitor) => competitor.id));
+          if (rollback.error) {
+            console.error('Failed to roll back competitor import', rollback.error);
+          }
+          throw error;
+        }
+      }
+
+      for (const competitor of created) {
+        await insertAuditLog({
+          eventId,
+          competitorId: competitor.id,
+          action: 'competitor_created',
+          newValue: { ...competitor, imported: true },
+          userId: req.auth.userId,
+          role: req.auth.role,
+          ip: req.ip ?? null,
+        });
+
+        if (generateTokens) {
+          await insertAuditLog({
+            eventId,
+            competitorId: competitor.id,
+            action: 'token_generated',
+            newValue: { token: competitor.qr_token },
+            userId: req.auth.userId,
+            role: req.auth.role,
+            ip: req.ip ?? null,
+          });
+        }
+      }
+
+      res.status(201).json({ ...report, created });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 router.patch('/competitors/:competitorId', async (req, res, next) => {
   try {
     if (!req.auth) {
@@ -260,6 +2191,12 @@ router.patch('/competitors/:competitorId', async (req, res, next) => {
       await assertCategoryExists(req.auth.eventId, payload.categoryCode);
     }
 
+    // Moving a competitor carries their attempts along, which would change finalized results.
+    if (payload.categoryCode && payload.categoryCode !== competitor.category_code) {
+      await assertCategoryOpen(req.auth.eventId, competitor.category_code);
+      await assertCategoryOpen(req.auth.eventId, payload.categoryCode);
+    }
+
     const updatePayload: Record<string, unknown> = {};
     if (payload.displayName !== undefined) updatePayload.display_name = payload.displayName;
     if (payload.categoryCode !== undefined) updatePayload.category_code = payload.categoryCode;
@@ -361,44 +2298,49 @@ router.post('/competitors/:competitorId/token', async (req, res, next) => {
       });
     }
 
-    const token = await generateUniqueToken(eventId);
+    const token = await issueCompetitorToken(req.auth, req.ip ?? null, eventId, competitorId);
 
-    const update = await supabase
-      .from('competitors')
-      .update({
-        qr_token: token,
-        qr_token_issued_at: new Date().toISOString(),
-      })
-      .eq('id', competitorId)
-      .select('id, qr_token, qr_token_issued_at')
-      .maybeSingle();
+    res.json({ token });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (update.error) {
-      throw new HttpError(500, 'Failed to store QR token', update.error);
+router.get('/events/:eventId/audit', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
     }
 
-    const insert = await supabase.from('qr_tokens').insert({
-      event_id: eventId,
-      competitor_id: competitorId,
-      token,
-      issued_by: req.auth.userId,
-    });
+    const eventId = z.string().uuid().parse(req.params.eventId);
+    if (eventId !== req.auth.eventId) {
+      throw new HttpError(403, 'Access to this event is not permitted');
+    }
 
-    if (insert.error) {
-      throw new HttpError(500, 'Failed to persist QR token', insert.error);
+    const filters = listAuditQuerySchema.parse(req.query);
+
+    if (filters.format === 'json') {
+      const page = await loadAuditPage(eventId, filters, filters.cursor, filters.limit);
+      res.json({ entries: await describeAuditEntries(eventId, page.entries), nextCursor: page.nextCursor });
+      return;
     }
 
-    await insertAuditLog({
-      eventId,
-      competitorId,
-      action: 'token_generated',
-      newValue: { token },
-      userId: req.auth.userId,
-      role: req.auth.role,
-      ip: req.ip ?? null,
-    });
+    // Semicolons and a BOM so the file opens correctly in a Czech Excel.
+    const lines = [AUDIT_CSV_HEADER.join(';')];
+    let cursor = filters.cursor;
+    let exported = 0;
+    do {
+      const page = await loadAuditPage(eventId, filters, cursor, AUDIT_EXPORT_BATCH);
+      for (const entry of await describeAuditEntries(eventId, page.entries)) {
+        lines.push(auditCsvRow(entry));
+      }
+      exported += page.entries.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && exported < AUDIT_EXPORT_LIMIT);
 
-    res.json({ token });
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(`\uFEFF${lines.join('\r\n')}\r\n`);
   } catch (error) {
     next(error);
   }
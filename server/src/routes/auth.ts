@@ -12,6 +12,7 @@ import {
 import { env } from '../env.js';
 import { HttpError } from '../utils/errors.js';
 import { ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
+import { loadFaultCodes } from '../utils/faultCodes.js';
 import type {
   CategoryRow,
   EventRow,
@@ -21,6 +22,8 @@ import type {
   UserSessionRow,
 } from '../types.js';
 import { authenticate } from '../middleware/authenticate.js';
+import { markSessionsRevoked, revokeUserSessions } from '../utils/sessions.js';
+import { effectiveAssignments, resolveAssignments } from '../utils/assignments.js';
 
 const DEFAULT_EVENT_SLUG = 'draci-smycka';
 
@@ -39,26 +42,11 @@ const logoutSchema = z.object({
   allDevices: z.boolean().optional(),
 });
 
-function collectAssignments(assignments: UserEventRoleRow[], role: UserRow['role']) {
-  const byRole = assignments.filter((entry) => entry.role === role);
-  const nodeIds = Array.from(
-    new Set(byRole.map((entry) => entry.node_id).filter((id): id is string => Boolean(id))),
-  );
-  const allowedCategories = Array.from(
-    new Set(
-      byRole
-        .flatMap((entry) => entry.allowed_category_codes ?? [])
-        .filter((code): code is string => Boolean(code)),
-    ),
-  );
-  return { nodeIds, allowedCategories };
-}
-
 async function loadEventContext(eventId: string) {
   const categories = ensureRows<CategoryRow>(
     await supabase
       .from('categories')
-      .select('id, event_id, code, name, description, display_order')
+      .select('id, event_id, code, name, description, display_order, finalized_at')
       .eq('event_id', eventId)
       .order('display_order', { ascending: true }),
     'Failed to load categories',
@@ -67,13 +55,15 @@ async function loadEventContext(eventId: string) {
   const nodes = ensureRows<NodeRow>(
     await supabase
       .from('nodes')
-      .select('id, event_id, code, name, sequence, is_relay, counts_to_overall')
+      .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds, note')
       .eq('event_id', eventId)
       .order('sequence', { ascending: true }),
     'Failed to load nodes',
   );
 
-  return { categories, nodes };
+  const faultCodes = await loadFaultCodes(eventId);
+
+  return { categories, nodes, faultCodes };
 }
 
 const router = Router();
@@ -116,7 +106,7 @@ router.post('/login', async (req, res, next) => {
     const event = handleSupabaseMaybe<EventRow>(
       await supabase
         .from('events')
-        .select('id, name, slug, base_path')
+        .select('id, name, slug, base_path, time_limit_policy, time_limit_fault_code')
         .eq('slug', targetSlug)
         .maybeSingle(),
       'Event not found',
@@ -139,13 +129,10 @@ router.post('/login', async (req, res, next) => {
       throw new HttpError(403, 'No assignment for this event');
     }
 
-    const { categories, nodes } = await loadEventContext(event.id);
-    const { nodeIds, allowedCategories } = collectAssignments(assignments, user.role);
-
-    const defaultCategories = categories.map((category) => category.code);
-    const effectiveCategories = allowedCategories.length > 0 ? allowedCategories : defaultCategories;
+    const { categories, nodes, faultCodes } = await loadEventContext(event.id);
+    const resolved = effectiveAssignments(assignments, user.role, categories.map((category) => category.code));
 
-    if (user.role === 'judge' && nodeIds.length === 0) {
+    if (user.role === 'judge' && resolved.nodeIds.length === 0) {
       throw new HttpError(403, 'Judge has no assigned nodes');
     }
 
@@ -155,8 +142,8 @@ router.post('/login', async (req, res, next) => {
       eventId: event.id,
       role: user.role,
       sessionId,
-      nodeIds,
-      allowedCategories: effectiveCategories,
+      nodeIds: resolved.nodeIds,
+      allowedCategories: resolved.allowedCategories,
     } as const;
 
     const [accessToken, refreshToken] = [
@@ -203,13 +190,13 @@ router.post('/login', async (req, res, next) => {
         name: event.name,
         slug: event.slug,
         basePath: event.base_path,
+        timeLimitPolicy: event.time_limit_policy ?? 'reject',
+        timeLimitFaultCode: event.time_limit_fault_code ?? null,
       },
-      assignments: {
-        nodeIds,
-        allowedCategories: effectiveCategories,
-      },
+      assignments: resolved,
       categories,
       nodes,
+      faultCodes,
     });
   } catch (error) {
     next(error);
@@ -278,7 +265,7 @@ router.post('/refresh', async (req, res, next) => {
     const event = handleSupabaseMaybe<EventRow>(
       await supabase
         .from('events')
-        .select('id, name, slug, base_path')
+        .select('id, name, slug, base_path, time_limit_policy, time_limit_fault_code')
         .eq('id', session.event_id)
         .maybeSingle(),
       'Event not found',
@@ -297,18 +284,16 @@ router.post('/refresh', async (req, res, next) => {
       'Failed to load user assignments',
     );
 
-    const { categories, nodes } = await loadEventContext(event.id);
-    const { nodeIds, allowedCategories } = collectAssignments(assignments, user.role);
-    const defaultCategories = categories.map((category) => category.code);
-    const effectiveCategories = allowedCategories.length > 0 ? allowedCategories : defaultCategories;
+    const { categories, nodes, faultCodes } = await loadEventContext(event.id);
+    const resolved = effectiveAssignments(assignments, user.role, categories.map((category) => category.code));
 
     const tokenPayload = {
       sub: user.id,
       eventId: event.id,
       role: user.role,
       sessionId: session.id,
-      nodeIds,
-      allowedCategories: effectiveCategories,
+      nodeIds: resolved.nodeIds,
+      allowedCategories: resolved.allowedCategories,
     } as const;
 
     const newAccessToken = createAccessToken(tokenPayload);
@@ -321,6 +306,7 @@ router.post('/refresh', async (req, res, next) => {
       .update({
         refresh_token_hash: newRefreshHash,
         expires_at: newExpiresAt,
+        last_refreshed_at: new Date().toISOString(),
       })
       .eq('id', session.id);
 
@@ -344,19 +330,34 @@ router.post('/refresh', async (req, res, next) => {
         name: event.name,
         slug: event.slug,
         basePath: event.base_path,
+        timeLimitPolicy: event.time_limit_policy ?? 'reject',
+        timeLimitFaultCode: event.time_limit_fault_code ?? null,
       },
-      assignments: {
-        nodeIds,
-        allowedCategories: effectiveCategories,
-      },
+      assignments: resolved,
       categories,
       nodes,
+      faultCodes,
     });
   } catch (error) {
     next(error);
   }
 });
 
+router.get('/assignments', authenticate, async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const assignments = await resolveAssignments(req.auth.userId, req.auth.eventId, req.auth.role);
+    const { categories, nodes } = await loadEventContext(req.auth.eventId);
+
+    res.json({ assignments, categories, nodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.post('/logout', authenticate, async (req, res, next) => {
   try {
     if (!req.auth) {
@@ -366,16 +367,7 @@ router.post('/logout', authenticate, async (req, res, next) => {
     const { allDevices } = logoutSchema.parse(req.body ?? {});
 
     if (allDevices) {
-      const update = await supabase
-        .from('user_sessions')
-        .update({ revoked_at: new Date().toISOString() })
-        .eq('user_id', req.auth.userId)
-        .eq('event_id', req.auth.eventId)
-        .is('revoked_at', null);
-
-      if (update.error) {
-        throw new HttpError(500, 'Failed to revoke sessions', update.error);
-      }
+      await revokeUserSessions(req.auth.userId, req.auth.eventId);
     } else {
       const update = await supabase
         .from('user_sessions')
@@ -385,6 +377,8 @@ router.post('/logout', authenticate, async (req, res, next) => {
       if (update.error) {
         throw new HttpError(500, 'Failed to revoke session', update.error);
       }
+
+      markSessionsRevoked([req.auth.sessionId]);
     }
 
     res.json({ success: true });
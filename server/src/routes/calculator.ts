@@ -3,10 +3,19 @@ import { z } from 'zod';
 import { supabase } from '../supabase.js';
 import { authenticate } from '../middleware/authenticate.js';
 import { requireRole } from '../middleware/requireRole.js';
-import { HttpError } from '../utils/errors.js';
-import { ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
-import { insertAuditLog } from '../utils/audit.js';
-import type { AttemptRow, CompetitorRow, NodeRow } from '../types.js';
+import { resolveCurrentAssignments } from '../middleware/assignments.js';
+import { HttpError, isHttpError } from '../utils/errors.js';
+import { ensureAllRows, ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
+import { insertAuditLog, loadAuditUserNames } from '../utils/audit.js';
+import { assertFaultCodeExists } from '../utils/faultCodes.js';
+import { applyNodeTimeLimit, withTimeLimitNote } from '../utils/timeLimits.js';
+import { searchCompetitors } from '../utils/competitorSearch.js';
+import { loadCompetitorById, resolveCompetitor } from '../utils/competitorResolver.js';
+import { assertNodeInCategory, loadCategoryNodeIds } from '../utils/categoryNodes.js';
+import { recordAttempt, voidAttempt } from '../utils/attempts.js';
+import { categoryScope, ensureCompetitorAllowed, ensureCompetitorIdAllowed } from '../utils/access.js';
+import { assertCategoryOpen, assertCompetitorCategoryOpen } from '../utils/finalization.js';
+import type { AttemptAuditRow, AttemptRow, AuthContext, CompetitorRow, NodeRow } from '../types.js';
 
 const attemptUpdateSchema = z.object({
   result: z.discriminatedUnion('kind', [
@@ -22,10 +31,71 @@ const attemptUpdateSchema = z.object({
   note: z.string().max(500).optional(),
 });
 
+const attemptEditSchema = attemptUpdateSchema.extend({
+  // updated_at of the attempt as the client last saw it.
+  expectedUpdatedAt: z.string().min(1),
+});
+
+const attemptCreateSchema = attemptUpdateSchema.extend({
+  competitorId: z.string().uuid(),
+  nodeId: z.string().uuid(),
+  attemptNumber: z.union([z.literal(1), z.literal(2)]),
+});
+
+const attemptVoidSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+  mode: z.enum(['cascade', 'promote']).optional(),
+});
+
+const attemptRevertSchema = z.object({
+  auditLogId: z.string().uuid(),
+  // updated_at of the attempt as the client last saw it, like attemptEditSchema.
+  expectedUpdatedAt: z.string().min(1),
+});
+
+const attemptBatchSchema = z.object({
+  changes: z
+    .array(
+      attemptCreateSchema.extend({
+        attemptId: z.string().uuid().optional(),
+        expectedUpdatedAt: z.string().min(1).optional(),
+      }),
+    )
+    .min(1)
+    .max(500),
+});
+
+type AttemptCreatePayload = z.infer<typeof attemptCreateSchema>;
+type AttemptEditPayload = z.infer<typeof attemptEditSchema>;
+
+const categoryParamsSchema = z.object({
+  categoryCode: z.string().min(1),
+});
+
+const completenessQuerySchema = z.object({
+  categoryCode: z.string().min(1).optional(),
+  status: z.enum(['missing', 'incomplete']).optional(),
+});
+
+type NodeStatus = 'time' | 'fault' | 'incomplete' | 'missing';
+
+interface CompletenessNode {
+  nodeId: string;
+  nodeCode: string;
+  nodeName: string;
+  total: number;
+  complete: number;
+  gaps: { competitorId: string; displayName: string; startNumber: number | null; status: NodeStatus }[];
+}
+
 const tokenLookupSchema = z.object({
   token: z.string().min(1),
 });
 
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+});
+
 function groupAttemptsByNode(attempts: AttemptRow[]) {
   const map = new Map<string, AttemptRow[]>();
   for (const attempt of attempts) {
@@ -59,33 +129,158 @@ function computeBest(attempts: AttemptRow[]) {
   };
 }
 
+async function createAttempt(auth: AuthContext, ip: string | null, payload: AttemptCreatePayload) {
+  const competitor = await loadCompetitorById(auth.eventId, payload.competitorId);
+  ensureCompetitorAllowed(auth, competitor);
+  await assertCategoryOpen(auth.eventId, competitor.category_code);
+
+  await assertNodeInCategory(auth.eventId, competitor.category_code, payload.nodeId);
+
+  const limited = await applyNodeTimeLimit(auth.eventId, payload.nodeId, payload.result);
+  const result = limited.result;
+
+  if (result.kind === 'fault') {
+    await assertFaultCodeExists(auth.eventId, result.faultCode);
+  }
+
+  // Paper sheets may carry only attempt 2, so the judge ordering rules do not apply.
+  const { attempt } = await recordAttempt({
+    eventId: auth.eventId,
+    competitorId: competitor.id,
+    nodeId: payload.nodeId,
+    attemptNumber: payload.attemptNumber,
+    result,
+    note: withTimeLimitNote(payload.note, limited.note),
+    userId: auth.userId,
+    role: auth.role,
+    ip,
+    enforceOrder: false,
+  });
+
+  return { attempt, timeLimitExceeded: limited.exceeded };
+}
+
+async function editAttempt(auth: AuthContext, ip: string | null, attemptId: string, payload: AttemptEditPayload) {
+  const attempt = handleSupabaseMaybe<AttemptRow>(
+    await supabase
+      .from('attempts')
+      .select(
+        'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
+      )
+      .eq('id', attemptId)
+      .maybeSingle(),
+    'Attempt not found',
+  );
+
+  if (!attempt || attempt.event_id !== auth.eventId) {
+    throw new HttpError(404, 'Attempt not found');
+  }
+
+  await ensureCompetitorIdAllowed(auth, attempt.competitor_id);
+  await assertCompetitorCategoryOpen(auth.eventId, attempt.competitor_id);
+
+  const limited = await applyNodeTimeLimit(attempt.event_id, attempt.node_id, payload.result);
+  const result = limited.result;
+
+  if (result.kind === 'fault') {
+    await assertFaultCodeExists(attempt.event_id, result.faultCode);
+  }
+
+  const updatePayload: Record<string, unknown> = {
+    result_kind: result.kind,
+    locked: true,
+    // Grid cells send no note; keep whatever the judge or calculator wrote before.
+    note: withTimeLimitNote(payload.note === undefined ? attempt.note : payload.note, limited.note),
+  };
+
+  if (result.kind === 'time') {
+    updatePayload.centiseconds = result.centiseconds;
+    // Keep the stopwatch provenance when only the note changes.
+    updatePayload.time_source =
+      attempt.result_kind === 'time' && attempt.centiseconds === result.centiseconds
+        ? attempt.time_source ?? 'manual'
+        : 'manual';
+    updatePayload.fault_code = null;
+  } else {
+    updatePayload.centiseconds = null;
+    updatePayload.time_source = null;
+    updatePayload.fault_code = result.faultCode;
+  }
+
+  // Only overwrite the row the client saw; anything newer means someone else edited it.
+  const update = await supabase
+    .from('attempts')
+    .update(updatePayload)
+    .eq('id', attemptId)
+    .eq('updated_at', payload.expectedUpdatedAt)
+    .select()
+    .maybeSingle();
+
+  if (update.error) {
+    throw new HttpError(500, 'Failed to update attempt', update.error);
+  }
+
+  const updatedAttempt = update.data;
+  if (!updatedAttempt) {
+    const current = handleSupabaseMaybe<AttemptRow>(
+      await supabase.from('attempts').select().eq('id', attemptId).maybeSingle(),
+      'Attempt not found',
+    );
+    if (!current) {
+      throw new HttpError(404, 'Attempt not found');
+    }
+    throw new HttpError(409, 'Attempt was changed in the meantime', { current });
+  }
+
+  await insertAuditLog({
+    eventId: attempt.event_id,
+    attemptId: attempt.id,
+    competitorId: attempt.competitor_id,
+    nodeId: attempt.node_id,
+    attemptNumber: attempt.attempt_number,
+    action: 'attempt_updated',
+    previousValue: attempt,
+    newValue: updatedAttempt,
+    userId: auth.userId,
+    role: auth.role,
+    ip,
+  });
+
+  return { attempt: updatedAttempt, timeLimitExceeded: limited.exceeded };
+}
+
 const router = Router();
 
 router.use(authenticate);
 router.use(requireRole('calculator', 'admin'));
+router.use(resolveCurrentAssignments);
 
-router.get('/competitors/lookup', async (req, res, next) => {
+router.get('/competitors/search', async (req, res, next) => {
   try {
     if (!req.auth) {
       throw new HttpError(401, 'Unauthorized');
     }
 
-    const { token } = tokenLookupSchema.parse(req.query);
+    const { q } = searchQuerySchema.parse(req.query);
+    const competitors = await searchCompetitors(req.auth.eventId, q, categoryScope(req.auth));
 
-    const competitor = handleSupabaseMaybe<CompetitorRow>(
-      await supabase
-        .from('competitors')
-        .select('id, event_id, category_code, display_name, club, start_number, qr_token')
-        .eq('event_id', req.auth.eventId)
-        .eq('qr_token', token)
-        .maybeSingle(),
-      'Competitor not found',
-    );
+    res.json({ competitors });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!competitor) {
-      throw new HttpError(404, 'Competitor not found');
+router.get('/competitors/lookup', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
     }
 
+    const { token } = tokenLookupSchema.parse(req.query);
+
+    const { competitor, matchedBy } = await resolveCompetitor(req.auth.eventId, token);
+    ensureCompetitorAllowed(req.auth, competitor);
+
     res.json({
       competitor: {
         id: competitor.id,
@@ -95,6 +290,7 @@ router.get('/competitors/lookup', async (req, res, next) => {
         startNumber: competitor.start_number,
         qrToken: competitor.qr_token,
       },
+      matchedBy,
     });
   } catch (error) {
     next(error);
@@ -122,6 +318,8 @@ router.get('/competitors/:competitorId', async (req, res, next) => {
       throw new HttpError(404, 'Competitor not found');
     }
 
+    ensureCompetitorAllowed(req.auth, competitor);
+
     const nodes = ensureRows<NodeRow>(
       await supabase
         .from('nodes')
@@ -134,7 +332,7 @@ router.get('/competitors/:competitorId', async (req, res, next) => {
     const attemptsResponse = await supabase
       .from('attempts')
       .select(
-        'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
+        'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
       )
       .eq('competitor_id', competitorId)
       .order('node_id', { ascending: true })
@@ -145,6 +343,7 @@ router.get('/competitors/:competitorId', async (req, res, next) => {
     }
 
     const attempts = attemptsResponse.data ?? [];
+    const categoryNodeIds = await loadCategoryNodeIds(req.auth.eventId, competitor.category_code);
     const attemptsByNode = groupAttemptsByNode(attempts);
     const bestByNode: Record<string, ReturnType<typeof computeBest>> = {};
 
@@ -163,6 +362,7 @@ router.get('/competitors/:competitorId', async (req, res, next) => {
         qrToken: competitor.qr_token,
       },
       nodes,
+      categoryNodeIds,
       attemptsByNode: Object.fromEntries(Array.from(attemptsByNode.entries())),
       bestByNode,
     });
@@ -171,6 +371,257 @@ router.get('/competitors/:competitorId', async (req, res, next) => {
   }
 });
 
+router.get('/categories/:categoryCode/sheet', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const { categoryCode } = categoryParamsSchema.parse(req.params);
+    const scope = categoryScope(req.auth);
+    if (scope && !scope.includes(categoryCode)) {
+      throw new HttpError(403, 'Category not allowed');
+    }
+
+    const nodeIds = await loadCategoryNodeIds(req.auth.eventId, categoryCode);
+    const nodes =
+      nodeIds.length === 0
+        ? []
+        : ensureRows<NodeRow>(
+            await supabase
+              .from('nodes')
+              .select('id, event_id, code, name, sequence, is_relay, counts_to_overall, max_time_centiseconds')
+              .eq('event_id', req.auth.eventId)
+              .in('id', nodeIds),
+            'Failed to load nodes',
+          ).sort((a, b) => nodeIds.indexOf(a.id) - nodeIds.indexOf(b.id));
+
+    const { eventId } = req.auth;
+
+    // Competitors x nodes easily exceeds PostgREST's row cap, and a missing attempt would show as an empty cell.
+    const competitors = await ensureAllRows<CompetitorRow>(
+      (from, to) =>
+        supabase
+          .from('competitors')
+          .select('id, event_id, category_code, display_name, club, start_number, qr_token')
+          .eq('event_id', eventId)
+          .eq('category_code', categoryCode)
+          .order('start_number', { ascending: true, nullsFirst: false })
+          .order('display_name', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to),
+      'Failed to load competitors',
+    );
+
+    const attempts =
+      competitors.length === 0 || nodeIds.length === 0
+        ? []
+        : await ensureAllRows<AttemptRow>(
+            (from, to) =>
+              supabase
+                .from('attempts')
+                .select(
+                  'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
+                )
+                .eq('event_id', eventId)
+                .in('competitor_id', competitors.map((competitor) => competitor.id))
+                .in('node_id', nodeIds)
+                .order('id', { ascending: true })
+                .range(from, to),
+            'Failed to load attempts',
+          );
+
+    res.json({
+      categoryCode,
+      nodes,
+      competitors: competitors.map((competitor) => ({
+        id: competitor.id,
+        displayName: competitor.display_name,
+        categoryCode: competitor.category_code,
+        club: competitor.club,
+        startNumber: competitor.start_number,
+      })),
+      attempts,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/completeness', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const { categoryCode, status } = completenessQuerySchema.parse(req.query);
+    const scope = categoryScope(req.auth);
+    if (categoryCode && scope && !scope.includes(categoryCode)) {
+      throw new HttpError(403, 'Category not allowed');
+    }
+
+    const { eventId } = req.auth;
+
+    // Both lists grow with the event past PostgREST's row cap, so they are loaded page by page.
+    const rankingsPage = (from: number, to: number) => {
+      let query = supabase
+        .from('category_node_rankings')
+        .select('category_code, node_id, sequence, competitor_id, status')
+        .eq('event_id', eventId);
+      if (categoryCode) {
+        query = query.eq('category_code', categoryCode);
+      } else if (scope) {
+        query = query.in('category_code', scope);
+      }
+      return query
+        .order('category_code', { ascending: true })
+        .order('sequence', { ascending: true })
+        .order('node_id', { ascending: true })
+        .order('competitor_id', { ascending: true })
+        .range(from, to);
+    };
+    const competitorsPage = (from: number, to: number) => {
+      let query = supabase
+        .from('competitors')
+        .select('id, event_id, category_code, display_name, club, start_number, qr_token')
+        .eq('event_id', eventId);
+      if (categoryCode) {
+        query = query.eq('category_code', categoryCode);
+      } else if (scope) {
+        query = query.in('category_code', scope);
+      }
+      return query.order('id', { ascending: true }).range(from, to);
+    };
+
+    const rankings = await ensureAllRows<{
+      category_code: string;
+      node_id: string;
+      sequence: number;
+      competitor_id: string;
+      status: NodeStatus;
+    }>(rankingsPage, 'Failed to load node rankings');
+    const competitors = await ensureAllRows<CompetitorRow>(competitorsPage, 'Failed to load competitors');
+    const nodes = ensureRows<NodeRow>(
+      await supabase
+        .from('nodes')
+        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall')
+        .eq('event_id', eventId),
+      'Failed to load nodes',
+    );
+
+    const competitorById = new Map(competitors.map((competitor) => [competitor.id, competitor]));
+    const nodeById = new Map(nodes.map((node) => [node.id, node]));
+    const wanted = new Set<NodeStatus>(status ? [status] : ['missing', 'incomplete']);
+
+    const categories = new Map<string, Map<string, CompletenessNode>>();
+
+    for (const row of rankings) {
+      const node = nodeById.get(row.node_id);
+      const competitor = competitorById.get(row.competitor_id);
+      if (!node || !competitor) {
+        continue;
+      }
+
+      const categoryNodes = categories.get(row.category_code) ?? new Map<string, CompletenessNode>();
+      categories.set(row.category_code, categoryNodes);
+      const entry: CompletenessNode = categoryNodes.get(row.node_id) ?? {
+        nodeId: node.id,
+        nodeCode: node.code,
+        nodeName: node.name,
+        total: 0,
+        complete: 0,
+        gaps: [],
+      };
+      categoryNodes.set(row.node_id, entry);
+
+      entry.total += 1;
+      if (row.status === 'time' || row.status === 'fault') {
+        entry.complete += 1;
+      } else if (wanted.has(row.status)) {
+        entry.gaps.push({
+          competitorId: competitor.id,
+          displayName: competitor.display_name,
+          startNumber: competitor.start_number,
+          status: row.status,
+        });
+      }
+    }
+
+    res.json({
+      categories: Array.from(categories.entries()).map(([code, categoryNodes]) => ({
+        categoryCode: code,
+        nodes: Array.from(categoryNodes.values()).map((entry) => ({
+          ...entry,
+          percent: entry.total === 0 ? 100 : Math.round((entry.complete / entry.total) * 1000) / 10,
+          gaps: entry.gaps.sort(
+            (a, b) =>
+              (a.startNumber ?? Number.MAX_SAFE_INTEGER) - (b.startNumber ?? Number.MAX_SAFE_INTEGER) ||
+              a.displayName.localeCompare(b.displayName, 'cs'),
+          ),
+        })),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/attempts', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const payload = attemptCreateSchema.parse(req.body ?? {});
+    const created = await createAttempt(req.auth, req.ip ?? null, payload);
+
+    res.status(201).json(created);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/attempts/batch', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const { changes } = attemptBatchSchema.parse(req.body ?? {});
+    const results = [];
+
+    // Cells are saved one by one so a bad cell does not block the rest of the sheet.
+    for (const [index, change] of changes.entries()) {
+      try {
+        const { attemptId, expectedUpdatedAt, ...payload } = change;
+        let saved;
+        if (attemptId) {
+          if (!expectedUpdatedAt) {
+            throw new HttpError(400, 'expectedUpdatedAt is required when editing an attempt');
+          }
+          saved = await editAttempt(req.auth, req.ip ?? null, attemptId, {
+            result: payload.result,
+            note: payload.note,
+            expectedUpdatedAt,
+          });
+        } else {
+          saved = await createAttempt(req.auth, req.ip ?? null, payload);
+        }
+        results.push({ index, ok: true as const, ...saved });
+      } catch (error) {
+        if (!isHttpError(error)) {
+          throw error;
+        }
+        results.push({ index, ok: false as const, status: error.status, error: error.message, details: error.details });
+      }
+    }
+
+    res.json({ results });
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.put('/attempts/:attemptId', async (req, res, next) => {
   try {
     if (!req.auth) {
@@ -178,51 +629,185 @@ router.put('/attempts/:attemptId', async (req, res, next) => {
     }
 
     const attemptId = z.string().uuid().parse(req.params.attemptId);
-    const payload = attemptUpdateSchema.parse(req.body ?? {});
+    const payload = attemptEditSchema.parse(req.body ?? {});
+    const updated = await editAttempt(req.auth, req.ip ?? null, attemptId, payload);
+
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/attempts/:attemptId', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const attemptId = z.string().uuid().parse(req.params.attemptId);
+    const payload = attemptVoidSchema.parse(req.body ?? {});
+
+    const target = handleSupabaseMaybe<Pick<AttemptRow, 'competitor_id'>>(
+      await supabase
+        .from('attempts')
+        .select('competitor_id')
+        .eq('id', attemptId)
+        .eq('event_id', req.auth.eventId)
+        .maybeSingle(),
+      'Attempt not found',
+    );
+
+    if (!target) {
+      throw new HttpError(404, 'Attempt not found');
+    }
+
+    await ensureCompetitorIdAllowed(req.auth, target.competitor_id);
+    await assertCompetitorCategoryOpen(req.auth.eventId, target.competitor_id);
+
+    const result = await voidAttempt({
+      eventId: req.auth.eventId,
+      attemptId,
+      reason: payload.reason,
+      mode: payload.mode,
+      userId: req.auth.userId,
+      role: req.auth.role,
+      ip: req.ip ?? null,
+    });
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/attempts/:attemptId/history', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const attemptId = z.string().uuid().parse(req.params.attemptId);
+
+    // Voided attempts lose the attempt_id link, their snapshot still carries the id.
+    const entries = ensureRows<AttemptAuditRow>(
+      await supabase
+        .from('attempt_audit_logs')
+        .select(
+          'id, event_id, attempt_id, competitor_id, node_id, attempt_number, action, previous_value, new_value, changed_by, changed_role, changed_ip, created_at',
+        )
+        .eq('event_id', req.auth.eventId)
+        .or(`attempt_id.eq.${attemptId},previous_value->>id.eq.${attemptId}`)
+        .order('created_at', { ascending: true }),
+      'Failed to load attempt history',
+    );
+
+    const competitorId = entries.find((entry) => entry.competitor_id)?.competitor_id;
+    if (competitorId) {
+      await ensureCompetitorIdAllowed(req.auth, competitorId);
+    }
+
+    const userNames = await loadAuditUserNames(entries.map((entry) => entry.changed_by));
+
+    res.json({
+      history: entries.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        attemptNumber: entry.attempt_number,
+        previousValue: entry.previous_value,
+        newValue: entry.new_value,
+        changedBy: entry.changed_by,
+        changedByName: entry.changed_by ? userNames.get(entry.changed_by) ?? null : null,
+        changedRole: entry.changed_role,
+        changedIp: entry.changed_ip ?? null,
+        createdAt: entry.created_at,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/attempts/:attemptId/revert', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const attemptId = z.string().uuid().parse(req.params.attemptId);
+    const { auditLogId, expectedUpdatedAt } = attemptRevertSchema.parse(req.body ?? {});
 
     const attempt = handleSupabaseMaybe<AttemptRow>(
       await supabase
         .from('attempts')
         .select(
-          'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, fault_code, note, locked, recorded_by, recorded_role',
+          'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, updated_at',
         )
         .eq('id', attemptId)
+        .eq('event_id', req.auth.eventId)
         .maybeSingle(),
       'Attempt not found',
     );
 
-    if (!attempt || attempt.event_id !== req.auth.eventId) {
+    if (!attempt) {
       throw new HttpError(404, 'Attempt not found');
     }
 
-    const updatePayload: Record<string, unknown> = {
-      result_kind: payload.result.kind,
-      locked: true,
-      note: payload.note ?? null,
-    };
+    await ensureCompetitorIdAllowed(req.auth, attempt.competitor_id);
+    await assertCompetitorCategoryOpen(req.auth.eventId, attempt.competitor_id);
+
+    const entry = handleSupabaseMaybe<AttemptAuditRow>(
+      await supabase
+        .from('attempt_audit_logs')
+        .select('id, event_id, attempt_id, action, previous_value, new_value, created_at')
+        .eq('id', auditLogId)
+        .eq('event_id', req.auth.eventId)
+        .eq('attempt_id', attemptId)
+        .maybeSingle(),
+      'Audit entry not found',
+    );
+
+    if (!entry) {
+      throw new HttpError(404, 'Audit entry not found');
+    }
+
+    const target = entry.previous_value as Partial<AttemptRow> | null;
+    if (!target || (target.result_kind !== 'time' && target.result_kind !== 'fault')) {
+      throw new HttpError(422, 'Audit entry has no earlier value to restore');
+    }
 
-    if (payload.result.kind === 'time') {
-      updatePayload.centiseconds = payload.result.centiseconds;
-      updatePayload.fault_code = null;
-    } else {
-      updatePayload.centiseconds = null;
-      updatePayload.fault_code = payload.result.faultCode;
+    if (target.result_kind === 'fault' && target.fault_code) {
+      await assertFaultCodeExists(attempt.event_id, target.fault_code);
     }
 
     const update = await supabase
       .from('attempts')
-      .update(updatePayload)
+      .update({
+        result_kind: target.result_kind,
+        centiseconds: target.result_kind === 'time' ? target.centiseconds ?? null : null,
+        time_source: target.result_kind === 'time' ? target.time_source ?? 'manual' : null,
+        fault_code: target.result_kind === 'fault' ? target.fault_code ?? null : null,
+        note: target.note ?? null,
+        locked: true,
+      })
       .eq('id', attemptId)
+      .eq('updated_at', expectedUpdatedAt)
       .select()
       .maybeSingle();
 
     if (update.error) {
-      throw new HttpError(500, 'Failed to update attempt', update.error);
+      throw new HttpError(500, 'Failed to revert attempt', update.error);
     }
 
-    const updatedAttempt = update.data;
-    if (!updatedAttempt) {
-      throw new HttpError(500, 'Update did not return attempt');
+    const revertedAttempt = update.data;
+    if (!revertedAttempt) {
+      const current = handleSupabaseMaybe<AttemptRow>(
+        await supabase.from('attempts').select().eq('id', attemptId).maybeSingle(),
+        'Attempt not found',
+      );
+      if (!current) {
+        throw new HttpError(404, 'Attempt not found');
+      }
+      throw new HttpError(409, 'Attempt was changed in the meantime', { current });
     }
 
     await insertAuditLog({
@@ -231,15 +816,15 @@ router.put('/attempts/:attemptId', async (req, res, next) => {
       competitorId: attempt.competitor_id,
       nodeId: attempt.node_id,
       attemptNumber: attempt.attempt_number,
-      action: 'attempt_updated',
+      action: 'attempt_reverted',
       previousValue: attempt,
-      newValue: updatedAttempt,
+      newValue: { ...revertedAttempt, reverted_audit_log_id: entry.id },
       userId: req.auth.userId,
       role: req.auth.role,
       ip: req.ip ?? null,
     });
 
-    res.json({ attempt: updatedAttempt });
+    res.json({ attempt: revertedAttempt });
   } catch (error) {
     next(error);
   }
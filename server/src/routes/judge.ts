@@ -3,18 +3,36 @@ import { z } from 'zod';
 import { supabase } from '../supabase.js';
 import { authenticate } from '../middleware/authenticate.js';
 import { requireRole } from '../middleware/requireRole.js';
+import { resolveCurrentAssignments } from '../middleware/assignments.js';
 import { HttpError } from '../utils/errors.js';
 import { handleSupabaseMaybe } from '../utils/supabase.js';
-import { insertAuditLog } from '../utils/audit.js';
+import { findReplayedAttempt, recordAttempt } from '../utils/attempts.js';
+import { assertFaultCodeExists } from '../utils/faultCodes.js';
+import { applyNodeTimeLimit, withTimeLimitNote } from '../utils/timeLimits.js';
+import { assertNodeInCategory, loadCategoryNodeIds } from '../utils/categoryNodes.js';
+import { searchCompetitors } from '../utils/competitorSearch.js';
+import { resolveCompetitor } from '../utils/competitorResolver.js';
+import { categoryScope, ensureCompetitorAllowed } from '../utils/access.js';
+import { assertCategoryOpen } from '../utils/finalization.js';
 import type { AttemptRow, CompetitorRow } from '../types.js';
 
 const MAX_TIME_CENTISECONDS = 20 * 60 * 100; // 20 minutes
 
-const lookupQuerySchema = z.object({
-  token: z.string().min(1),
+const lookupQuerySchema = z
+  .object({
+    token: z.string().min(1).optional(),
+    competitorId: z.string().uuid().optional(),
+  })
+  .refine((query) => Boolean(query.token || query.competitorId), {
+    message: 'Token or competitorId is required',
+  });
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
 });
 
 const attemptPayloadSchema = z.object({
+  attemptId: z.string().uuid().optional(),
   competitorId: z.string().uuid(),
   nodeId: z.string().uuid(),
   attemptNumber: z.number().int().min(1).max(2),
@@ -22,6 +40,7 @@ const attemptPayloadSchema = z.object({
     z.object({
       kind: z.literal('time'),
       centiseconds: z.number().int().min(0).max(MAX_TIME_CENTISECONDS),
+      source: z.enum(['manual', 'stopwatch']).optional().default('manual'),
     }),
     z.object({
       kind: z.literal('fault'),
@@ -31,58 +50,6 @@ const attemptPayloadSchema = z.object({
   note: z.string().max(500).optional(),
 });
 
-function ensureCompetitorAllowed(competitor: CompetitorRow, allowedCategories: string[]) {
-  if (!allowedCategories.includes(competitor.category_code)) {
-    throw new HttpError(403, 'Competitor category not allowed');
-  }
-}
-
-async function loadCompetitorByToken(eventId: string, token: string) {
-  const competitor = handleSupabaseMaybe<CompetitorRow>(
-    await supabase
-      .from('competitors')
-      .select('id, event_id, category_code, display_name, club, start_number, qr_token')
-      .eq('event_id', eventId)
-      .eq('qr_token', token)
-      .maybeSingle(),
-    'Competitor not found',
-  );
-
-  if (competitor) {
-    return competitor;
-  }
-
-  const qrToken = handleSupabaseMaybe<{ competitor_id: string }>(
-    await supabase
-      .from('qr_tokens')
-      .select('competitor_id')
-      .eq('event_id', eventId)
-      .eq('token', token)
-      .is('revoked_at', null)
-      .maybeSingle(),
-    'Competitor not found',
-  );
-
-  if (!qrToken) {
-    throw new HttpError(404, 'Competitor not found');
-  }
-
-  const match = handleSupabaseMaybe<CompetitorRow>(
-    await supabase
-      .from('competitors')
-      .select('id, event_id, category_code, display_name, club, start_number, qr_token')
-      .eq('id', qrToken.competitor_id)
-      .maybeSingle(),
-    'Competitor not found',
-  );
-
-  if (!match) {
-    throw new HttpError(404, 'Competitor not found');
-  }
-
-  return match;
-}
-
 async function loadAttempts(competitorId: string, nodeIds: string[]) {
   if (nodeIds.length === 0) {
     return [] as AttemptRow[];
@@ -91,7 +58,7 @@ async function loadAttempts(competitorId: string, nodeIds: string[]) {
   const response = await supabase
     .from('attempts')
     .select(
-      'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
+      'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
     )
     .eq('competitor_id', competitorId)
     .in('node_id', nodeIds)
@@ -108,6 +75,22 @@ const router = Router();
 
 router.use(authenticate);
 router.use(requireRole('judge'));
+router.use(resolveCurrentAssignments);
+
+router.get('/competitors/search', async (req, res, next) => {
+  try {
+    if (!req.auth) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const { q } = searchQuerySchema.parse(req.query);
+    const competitors = await searchCompetitors(req.auth.eventId, q, categoryScope(req.auth));
+
+    res.json({ competitors });
+  } catch (error) {
+    next(error);
+  }
+});
 
 router.get('/competitors/lookup', async (req, res, next) => {
   try {
@@ -115,11 +98,11 @@ router.get('/competitors/lookup', async (req, res, next) => {
       throw new HttpError(401, 'Unauthorized');
     }
 
-    const { token } = lookupQuerySchema.parse(req.query);
+    const { token, competitorId } = lookupQuerySchema.parse(req.query);
 
-    const competitor = await loadCompetitorByToken(req.auth.eventId, token.trim());
+    const { competitor, matchedBy } = await resolveCompetitor(req.auth.eventId, competitorId ?? token ?? '');
 
-    ensureCompetitorAllowed(competitor, req.auth.allowedCategories ?? []);
+    ensureCompetitorAllowed(req.auth, competitor);
 
     const nodeIds = req.auth.nodeIds ?? [];
     if (nodeIds.length === 0) {
@@ -127,6 +110,7 @@ router.get('/competitors/lookup', async (req, res, next) => {
     }
 
     const attempts = await loadAttempts(competitor.id, nodeIds);
+    const categoryNodeIds = await loadCategoryNodeIds(req.auth.eventId, competitor.category_code);
 
     res.json({
       competitor: {
@@ -136,8 +120,10 @@ router.get('/competitors/lookup', async (req, res, next) => {
         club: competitor.club,
         startNumber: competitor.start_number,
       },
+      matchedBy,
       attempts,
       nodeIds,
+      categoryNodeIds,
     });
   } catch (error) {
     next(error);
@@ -152,6 +138,12 @@ router.post('/attempts', async (req, res, next) => {
 
     const payload = attemptPayloadSchema.parse(req.body ?? {});
 
+    const replayedAttempt = await findReplayedAttempt({ ...payload, eventId: req.auth.eventId, userId: req.auth.userId });
+    if (replayedAttempt) {
+      res.json({ attempt: replayedAttempt, replayed: true });
+      return;
+    }
+
     const nodeIds = req.auth.nodeIds ?? [];
     if (!nodeIds.includes(payload.nodeId)) {
       throw new HttpError(403, 'Node is not assigned to judge');
@@ -171,91 +163,37 @@ router.post('/attempts', async (req, res, next) => {
       throw new HttpError(404, 'Competitor not found');
     }
 
-    ensureCompetitorAllowed(competitor, req.auth.allowedCategories ?? []);
-
-    const existing = await loadAttempts(payload.competitorId, [payload.nodeId]);
-
-    const attempt1 = existing.find((attempt) => attempt.attempt_number === 1);
-    const attempt2 = existing.find((attempt) => attempt.attempt_number === 2);
-
-    if (payload.attemptNumber === 1) {
-      if (attempt1) {
-        throw new HttpError(409, 'Attempt 1 already exists');
-      }
-    } else {
-      if (!attempt1) {
-        throw new HttpError(409, 'Attempt 1 must be recorded first');
-      }
-      if (!attempt1.locked) {
-        throw new HttpError(409, 'Attempt 1 is not locked yet');
-      }
-      if (attempt2) {
-        throw new HttpError(409, 'Attempt 2 already exists');
-      }
-    }
-
-    const insertPayload: Record<string, unknown> = {
-      event_id: req.auth.eventId,
-      competitor_id: payload.competitorId,
-      node_id: payload.nodeId,
-      attempt_number: payload.attemptNumber,
-      result_kind: payload.result.kind,
-      locked: true,
-      recorded_by: req.auth.userId,
-      recorded_role: req.auth.role,
-      note: payload.note ?? null,
-    };
-
-    if (payload.result.kind === 'time') {
-      insertPayload.centiseconds = payload.result.centiseconds;
-      insertPayload.fault_code = null;
-    } else {
-      insertPayload.centiseconds = null;
-      insertPayload.fault_code = payload.result.faultCode;
-    }
-
-    const insert = await supabase.from('attempts').insert(insertPayload).select().maybeSingle();
+    ensureCompetitorAllowed(req.auth, competitor);
 
-    if (insert.error) {
-      if (insert.error.code === '23505') {
-        throw new HttpError(409, 'Attempt already exists', insert.error);
-      }
-      throw new HttpError(500, 'Failed to insert attempt', insert.error);
-    }
+    await assertCategoryOpen(req.auth.eventId, competitor.category_code);
+    await assertNodeInCategory(req.auth.eventId, competitor.category_code, payload.nodeId);
 
-    const createdAttempt = insert.data;
-    if (!createdAttempt) {
-      throw new HttpError(500, 'Attempt creation failed');
-    }
+    const limited = await applyNodeTimeLimit(req.auth.eventId, payload.nodeId, payload.result);
+    const result = limited.result;
 
-    // Ensure attempt 1 is locked after insert.
-    if (payload.attemptNumber === 1) {
-      const lockUpdate = await supabase
-        .from('attempts')
-        .update({ locked: true })
-        .eq('competitor_id', payload.competitorId)
-        .eq('node_id', payload.nodeId)
-        .eq('attempt_number', 1);
-
-      if (lockUpdate.error) {
-        throw new HttpError(500, 'Failed to lock attempt 1', lockUpdate.error);
-      }
+    if (result.kind === 'fault') {
+      await assertFaultCodeExists(req.auth.eventId, result.faultCode);
     }
 
-    await insertAuditLog({
+    const { attempt, replayed } = await recordAttempt({
       eventId: req.auth.eventId,
-      attemptId: createdAttempt.id,
       competitorId: payload.competitorId,
       nodeId: payload.nodeId,
       attemptNumber: payload.attemptNumber,
-      action: 'attempt_created',
-      newValue: createdAttempt,
+      result,
+      note: withTimeLimitNote(payload.note, limited.note),
       userId: req.auth.userId,
       role: req.auth.role,
       ip: req.ip ?? null,
+      attemptId: payload.attemptId,
     });
 
-    res.status(201).json({ attempt: createdAttempt });
+    if (replayed) {
+      res.json({ attempt, replayed: true });
+      return;
+    }
+
+    res.status(201).json({ attempt, timeLimitExceeded: limited.exceeded });
   } catch (error) {
     next(error);
   }
@@ -2,8 +2,9 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { supabase } from '../supabase.js';
 import { HttpError } from '../utils/errors.js';
-import { handleSupabaseMaybe } from '../utils/supabase.js';
-import type { EventRow } from '../types.js';
+import { ensureRows, handleSupabaseMaybe } from '../utils/supabase.js';
+import { loadFaultCodes } from '../utils/faultCodes.js';
+import type { CategoryRow, EventRow, NodeRow } from '../types.js';
 
 const router = Router();
 
@@ -53,7 +54,7 @@ router.get('/events/:slug', async (req, res, next) => {
     const nodeRankingsResponse = await supabase
       .from('category_node_rankings')
       .select(
-        'event_id, category_code, node_id, sequence, competitor_id, best_centiseconds, has_fault, has_any_attempt, status, time_rank, competitor_count, placement, tie_break_centiseconds',
+        'event_id, category_code, node_id, sequence, competitor_id, best_centiseconds, has_fault, fault_code, has_any_attempt, status, time_rank, competitor_count, placement, tie_break_centiseconds',
       )
       .eq('event_id', event.id)
       .order('category_code', { ascending: true })
@@ -77,6 +78,30 @@ router.get('/events/:slug', async (req, res, next) => {
       throw new HttpError(500, 'Failed to load relay leaderboards', relayLeaderboardResponse.error);
     }
 
+    const nodes = ensureRows<NodeRow>(
+      await supabase
+        .from('nodes')
+        .select('id, event_id, code, name, sequence, is_relay, counts_to_overall')
+        .eq('event_id', event.id)
+        .order('sequence', { ascending: true }),
+      'Failed to load nodes',
+    );
+
+    const categories = ensureRows<CategoryRow>(
+      await supabase
+        .from('categories')
+        .select('id, event_id, code, name, description, display_order, finalized_at')
+        .eq('event_id', event.id)
+        .order('display_order', { ascending: true }),
+      'Failed to load categories',
+    );
+
+    const faultCodes = (await loadFaultCodes(event.id)).map((faultCode) => ({
+      code: faultCode.code,
+      label: faultCode.label,
+      description: faultCode.description,
+    }));
+
     const categoryNodeRankingsByCompetitor = new Map<string, unknown[]>();
     for (const entry of nodeRankingsResponse.data ?? []) {
       const key = `${entry.category_code}:${entry.competitor_id}`;
@@ -118,6 +143,15 @@ router.get('/events/:slug', async (req, res, next) => {
 
     res.json({
       event,
+      categories: categories.map((category) => ({
+        code: category.code,
+        name: category.name,
+        // Provisional until the office finalizes the category.
+        official: Boolean(category.finalized_at),
+        finalizedAt: category.finalized_at ?? null,
+      })),
+      nodes,
+      faultCodes,
       categoryLeaderboards,
       relayLeaderboards,
     });
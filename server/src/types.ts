@@ -1,5 +1,7 @@
 export type UserRole = 'admin' | 'judge' | 'calculator';
 
+export type AttemptTimeSource = 'manual' | 'stopwatch';
+
 export interface UserRow {
   id: string;
   email: string;
@@ -7,8 +9,11 @@ export interface UserRow {
   display_name: string;
   role: UserRole;
   active: boolean;
+  last_login_at?: string | null;
 }
 
+export type TimeLimitPolicy = 'reject' | 'fault';
+
 export interface EventRow {
   id: string;
   name: string;
@@ -16,6 +21,8 @@ export interface EventRow {
   base_path: string;
   starts_at?: string | null;
   ends_at?: string | null;
+  time_limit_policy?: TimeLimitPolicy;
+  time_limit_fault_code?: string | null;
 }
 
 export interface CategoryRow {
@@ -25,6 +32,8 @@ export interface CategoryRow {
   name: string;
   description: string | null;
   display_order: number;
+  finalized_at?: string | null;
+  finalized_by?: string | null;
 }
 
 export interface NodeRow {
@@ -39,6 +48,18 @@ export interface NodeRow {
   note?: string | null;
 }
 
+export type FaultRanking = 'last' | 'after_finishers';
+
+export interface FaultCodeRow {
+  id: string;
+  event_id: string;
+  code: string;
+  label: string;
+  description: string | null;
+  ranking: FaultRanking;
+  display_order: number;
+}
+
 export interface UserEventRoleRow {
   id: string;
   user_id: string;
@@ -58,6 +79,8 @@ export interface UserSessionRow {
   revoked_at: string | null;
   device_info?: string | null;
   created_ip?: string | null;
+  created_at?: string;
+  last_refreshed_at?: string | null;
 }
 
 export interface CompetitorRow {
@@ -81,6 +104,7 @@ export interface AttemptRow {
   attempt_number: number;
   result_kind: 'time' | 'fault';
   centiseconds: number | null;
+  time_source?: AttemptTimeSource | null;
   fault_code: string | null;
   note?: string | null;
   locked: boolean;
@@ -102,6 +126,7 @@ export interface AttemptAuditRow {
   new_value: unknown;
   changed_by: string | null;
   changed_role: UserRole | null;
+  changed_ip?: string | null;
   created_at: string;
 }
 
@@ -0,0 +1,44 @@
+import { supabase } from '../supabase.js';
+import type { AuthContext, CompetitorRow } from '../types.js';
+import { HttpError } from './errors.js';
+import { handleSupabaseMaybe } from './supabase.js';
+
+/**
+ * Categories the caller may work with, or null when the role is not limited
+ * (admins always see the whole event).
+ */
+export function categoryScope(auth: AuthContext): string[] | null {
+  if (auth.role === 'admin') {
+    return null;
+  }
+  return auth.allowedCategories ?? [];
+}
+
+export function ensureCompetitorAllowed(auth: AuthContext, competitor: Pick<CompetitorRow, 'category_code'>) {
+  const scope = categoryScope(auth);
+  if (scope && !scope.includes(competitor.category_code)) {
+    throw new HttpError(403, 'Competitor category not allowed');
+  }
+}
+
+export async function ensureCompetitorIdAllowed(auth: AuthContext, competitorId: string) {
+  if (!categoryScope(auth)) {
+    return;
+  }
+
+  const competitor = handleSupabaseMaybe<Pick<CompetitorRow, 'category_code'>>(
+    await supabase
+      .from('competitors')
+      .select('category_code')
+      .eq('id', competitorId)
+      .eq('event_id', auth.eventId)
+      .maybeSingle(),
+    'Competitor not found',
+  );
+
+  if (!competitor) {
+    throw new HttpError(404, 'Competitor not found');
+  }
+
+  ensureCompetitorAllowed(auth, competitor);
+}
@@ -0,0 +1,125 @@
+import { createHash } from 'node:crypto';
+import { env } from '../env.js';
+import { supabase } from '../supabase.js';
+import type { UserEventRoleRow, UserRole } from '../types.js';
+import { ensureRows } from './supabase.js';
+
+export const ASSIGNMENTS_VERSION_HEADER = 'X-Assignments-Version';
+
+export interface ResolvedAssignments {
+  nodeIds: string[];
+  allowedCategories: string[];
+  /** Fingerprint of the two lists; clients compare it to notice reassignments. */
+  version: string;
+}
+
+interface AssignmentsEntry {
+  assignments: Promise<ResolvedAssignments>;
+  expiresAt: number;
+}
+
+const ASSIGNMENTS_CACHE_LIMIT = 5000;
+
+const assignmentsCache = new Map<string, AssignmentsEntry>();
+
+function cacheKey(userId: string, eventId: string, role: UserRole) {
+  return `${eventId}:${userId}:${role}`;
+}
+
+function assignmentsVersion(nodeIds: string[], allowedCategories: string[]) {
+  return createHash('sha1')
+    .update(JSON.stringify([[...nodeIds].sort(), [...allowedCategories].sort()]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Folds the user's `user_event_roles` rows for `role` into node ids and category codes.
+ * No category restriction means every category of the event; a non-admin without any
+ * row for the role ends up with nothing.
+ */
+export function effectiveAssignments(
+  assignments: UserEventRoleRow[],
+  role: UserRole,
+  categoryCodes: string[],
+): ResolvedAssignments {
+  const byRole = assignments.filter((entry) => entry.role === role);
+  if (role !== 'admin' && byRole.length === 0) {
+    return { nodeIds: [], allowedCategories: [], version: assignmentsVersion([], []) };
+  }
+
+  const nodeIds = Array.from(
+    new Set(byRole.map((entry) => entry.node_id).filter((id): id is string => Boolean(id))),
+  );
+  const restricted = Array.from(
+    new Set(
+      byRole
+        .flatMap((entry) => entry.allowed_category_codes ?? [])
+        .filter((code): code is string => Boolean(code)),
+    ),
+  );
+  const allowedCategories = restricted.length > 0 ? restricted : categoryCodes;
+
+  return { nodeIds, allowedCategories, version: assignmentsVersion(nodeIds, allowedCategories) };
+}
+
+async function loadAssignments(userId: string, eventId: string, role: UserRole) {
+  const assignments = ensureRows<UserEventRoleRow>(
+    await supabase
+      .from('user_event_roles')
+      .select('id, user_id, event_id, role, node_id, allowed_category_codes')
+      .eq('user_id', userId)
+      .eq('event_id', eventId),
+    'Failed to load user assignments',
+  );
+
+  const categories = ensureRows<{ code: string }>(
+    await supabase
+      .from('categories')
+      .select('code')
+      .eq('event_id', eventId)
+      .order('display_order', { ascending: true }),
+    'Failed to load categories',
+  );
+
+  return effectiveAssignments(assignments, role, categories.map((category) => category.code));
+}
+
+/**
+ * Current assignments of the user in the event, cached for `ASSIGNMENTS_TTL_SECONDS`
+ * so judge and calculator requests do not query `user_event_roles` every time.
+ */
+export function resolveAssignments(userId: string, eventId: string, role: UserRole) {
+  const key = cacheKey(userId, eventId, role);
+  const now = Date.now();
+  const cached = assignmentsCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.assignments;
+  }
+
+  if (assignmentsCache.size >= ASSIGNMENTS_CACHE_LIMIT) {
+    for (const [entryKey, entry] of assignmentsCache) {
+      if (entry.expiresAt <= now) {
+        assignmentsCache.delete(entryKey);
+      }
+    }
+  }
+
+  const assignments = loadAssignments(userId, eventId, role);
+  assignmentsCache.set(key, { assignments, expiresAt: now + env.ASSIGNMENTS_TTL_SECONDS * 1000 });
+  assignments.catch(() => {
+    if (assignmentsCache.get(key)?.assignments === assignments) {
+      assignmentsCache.delete(key);
+    }
+  });
+  return assignments;
+}
+
+/** Drops cached assignments of the user so the next request sees admin changes right away. */
+export function invalidateAssignments(userId: string) {
+  for (const key of assignmentsCache.keys()) {
+    if (key.includes(`:${userId}:`)) {
+      assignmentsCache.delete(key);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { supabase } from '../supabase.js';
+import type { AttemptRow, UserRole } from '../types.js';
+import { HttpError } from './errors.js';
+import type { AttemptResult } from './timeLimits.js';
+
+interface RecordAttemptParams {
+  eventId: string;
+  competitorId: string;
+  nodeId: string;
+  attemptNumber: number;
+  result: AttemptResult;
+  note?: string | null;
+  userId: string;
+  role: UserRole;
+  ip?: string | null;
+  attemptId?: string;
+  enforceOrder?: boolean;
+}
+
+interface RecordAttemptResult {
+  attempt: AttemptRow;
+  replayed: boolean;
+}
+
+export type VoidAttemptMode = 'cascade' | 'promote';
+
+interface VoidAttemptParams {
+  eventId: string;
+  attemptId: string;
+  reason: string;
+  mode?: VoidAttemptMode;
+  userId: string;
+  role: UserRole;
+  ip?: string | null;
+}
+
+interface VoidAttemptResult {
+  deleted: AttemptRow[];
+  promoted: AttemptRow | null;
+}
+
+// SQLSTATE codes raised by record_attempt() and void_attempt() for broken attempt rules.
+const ATTEMPT_RULE_ERRORS = new Set(['DSA01', 'DSA02', 'DSA03', 'DSA04', 'DSA05', 'DSA07']);
+const ATTEMPT_NOT_FOUND = 'DSA06';
+
+/**
+ * Returns the attempt an offline client already stored under `attemptId`, so a
+ * replayed submission succeeds even after the category was finalized or the
+ * judge was moved. Anything that does not match exactly is left to
+ * record_attempt, which rejects reused ids.
+ */
+export async function findReplayedAttempt(
+  params: Pick<RecordAttemptParams, 'eventId' | 'competitorId' | 'nodeId' | 'attemptNumber' | 'userId' | 'attemptId'>,
+) {
+  if (!params.attemptId) {
+    return null;
+  }
+
+  const existing = await supabase
+    .from('attempts')
+    .select(
+      'id, event_id, competitor_id, node_id, attempt_number, result_kind, centiseconds, time_source, fault_code, note, locked, recorded_by, recorded_role, created_at, updated_at',
+    )
+    .eq('id', params.attemptId)
+    .maybeSingle();
+
+  if (existing.error) {
+    throw new HttpError(500, 'Failed to load attempt', existing.error);
+  }
+
+  const attempt = existing.data as AttemptRow | null;
+  if (
+    !attempt ||
+    attempt.event_id !== params.eventId ||
+    attempt.competitor_id !== params.competitorId ||
+    attempt.node_id !== params.nodeId ||
+    attempt.attempt_number !== params.attemptNumber ||
+    attempt.recorded_by !== params.userId
+  ) {
+    return null;
+  }
+
+  return attempt;
+}
+
+/**
+ * Inserts an attempt and its audit row atomically through the record_attempt
+ * database function.
+ */
+export async function recordAttempt(params: RecordAttemptParams): Promise<RecordAttemptResult> {
+  const { result } = params;
+
+  const rpc = await supabase.rpc('record_attempt', {
+    p_event_id: params.eventId,
+    p_competitor_id: params.competitorId,
+    p_node_id: params.nodeId,
+    p_attempt_number: params.attemptNumber,
+    p_result_kind: result.kind,
+    p_centiseconds: result.kind === 'time' ? result.centiseconds : null,
+    p_time_source: result.kind === 'time' ? result.source ?? 'manual' : null,
+    p_fault_code: result.kind === 'fault' ? result.faultCode : null,
+    p_note: params.note ?? null,
+    p_recorded_by: params.userId,
+    p_recorded_role: params.role,
+    p_recorded_ip: params.ip ?? null,
+    p_attempt_id: params.attemptId ?? null,
+    p_enforce_order: params.enforceOrder ?? true,
+  });
+
+  if (rpc.error) {
+    if (ATTEMPT_RULE_ERRORS.has(rpc.error.code)) {
+      throw new HttpError(409, rpc.error.message);
+    }
+    if (rpc.error.code === '23505') {
+      throw new HttpError(409, 'Attempt already exists', rpc.error);
+    }
+    throw new HttpError(500, 'Failed to record attempt', rpc.error);
+  }
+
+  const data = rpc.data as RecordAttemptResult | null;
+  if (!data?.attempt) {
+    throw new HttpError(500, 'Attempt creation failed');
+  }
+
+  return data;
+}
+
+/**
+ * Deletes an attempt through the void_attempt database function, which keeps
+ * the previous value and reason in the audit log.
+ */
+export async function voidAttempt(params: VoidAttemptParams): Promise<VoidAttemptResult> {
+  const rpc = await supabase.rpc('void_attempt', {
+    p_event_id: params.eventId,
+    p_attempt_id: params.attemptId,
+    p_reason: params.reason,
+    p_mode: params.mode ?? null,
+    p_changed_by: params.userId,
+    p_changed_role: params.role,
+    p_changed_ip: params.ip ?? null,
+  });
+
+  if (rpc.error) {
+    if (rpc.error.code === ATTEMPT_NOT_FOUND) {
+      throw new HttpError(404, 'Attempt not found');
+    }
+    if (ATTEMPT_RULE_ERRORS.has(rpc.error.code)) {
+      throw new HttpError(409, rpc.error.message);
+    }
+    throw new HttpError(500, 'Failed to void attempt', rpc.error);
+  }
+
+  const data = rpc.data as VoidAttemptResult | null;
+  if (!data?.deleted) {
+    throw new HttpError(500, 'Attempt void failed');
+  }
+
+  return data;
+}
@@ -1,6 +1,37 @@
 import { supabase } from '../supabase.js';
 import type { UserRole } from '../types.js';
 import { HttpError } from './errors.js';
+import { ensureRows } from './supabase.js';
+
+export const AUDIT_ACTIONS = [
+  'attempt_created',
+  'attempt_updated',
+  'attempt_deleted',
+  'attempt_reverted',
+  'category_finalized',
+  'category_reopened',
+  'token_generated',
+  'token_revoked',
+  'competitor_created',
+  'competitor_updated',
+  'user_created',
+  'user_updated',
+  'user_password_reset',
+  'role_assigned',
+  'role_unassigned',
+  'session_revoked',
+  'node_created',
+  'node_updated',
+  'node_deleted',
+  'nodes_reordered',
+  'category_created',
+  'category_updated',
+  'category_deleted',
+  'category_nodes_updated',
+] as const;
+
+/** Mirrors the `audit_action` enum in schema.sql. */
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
 
 interface AuditPayload {
   eventId: string;
@@ -8,7 +39,7 @@ interface AuditPayload {
   competitorId?: string | null;
   nodeId?: string | null;
   attemptNumber?: number | null;
-  action: 'attempt_created' | 'attempt_updated' | 'attempt_deleted' | 'token_generated' | 'token_revoked' | 'competitor_updated';
+  action: AuditAction;
   previousValue?: unknown;
   newValue?: unknown;
   userId?: string | null;
@@ -35,3 +66,17 @@ export async function insertAuditLog(payload: AuditPayload) {
     throw new HttpError(500, 'Failed to insert audit log', insert.error);
   }
 }
+
+export async function loadAuditUserNames(userIds: (string | null)[]) {
+  const ids = Array.from(new Set(userIds.filter((id): id is string => Boolean(id))));
+  if (ids.length === 0) {
+    return new Map<string, string>();
+  }
+
+  const users = ensureRows<{ id: string; display_name: string }>(
+    await supabase.from('users').select('id, display_name').in('id', ids),
+    'Failed to load audit users',
+  );
+
+  return new Map(users.map((user) => [user.id, user.display_name]));
+}
@@ -0,0 +1,23 @@
+import { supabase } from '../supabase.js';
+import { HttpError } from './errors.js';
+import { ensureRows } from './supabase.js';
+
+export async function loadCategoryNodeIds(eventId: string, categoryCode: string) {
+  const rows = ensureRows<{ node_id: string }>(
+    await supabase
+      .from('category_nodes')
+      .select('node_id')
+      .eq('event_id', eventId)
+      .eq('category_code', categoryCode)
+      .order('sequence', { ascending: true }),
+    'Failed to load category nodes',
+  );
+  return rows.map((row) => row.node_id);
+}
+
+export async function assertNodeInCategory(eventId: string, categoryCode: string, nodeId: string) {
+  const nodeIds = await loadCategoryNodeIds(eventId, categoryCode);
+  if (!nodeIds.includes(nodeId)) {
+    throw new HttpError(422, `Node is not run by category ${categoryCode}`);
+  }
+}
@@ -0,0 +1,159 @@
+import ExcelJS from 'exceljs';
+import { HttpError } from './errors.js';
+import { normalizeSearchText } from './competitorSearch.js';
+
+export type ImportField = 'displayName' | 'categoryCode' | 'club' | 'startNumber' | 'birthYear' | 'notes';
+
+export interface ImportedRow {
+  /** 1-based row number in the source sheet, header included, so it matches what the user sees. */
+  row: number;
+  values: Partial<Record<ImportField, string>>;
+}
+
+const REQUIRED_FIELDS: ImportField[] = ['displayName', 'categoryCode'];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  displayName: ['jmeno', 'jmenoaprijmeni', 'prijmeniajmeno', 'soutezici', 'name', 'displayname'],
+  categoryCode: ['kategorie', 'kat', 'category', 'categorycode'],
+  club: ['oddil', 'klub', 'jednotka', 'club'],
+  startNumber: ['cislo', 'startovnicislo', 'startnumber', 'number'],
+  birthYear: ['rok', 'roknarozeni', 'rocnik', 'birthyear'],
+  notes: ['poznamka', 'poznamky', 'note', 'notes'],
+};
+
+function normalizeHeader(value: string) {
+  return normalizeSearchText(value).replace(/[^a-z0-9]/g, '');
+}
+
+function detectDelimiter(line: string) {
+  const semicolons = line.split(';').length;
+  const commas = line.split(',').length;
+  const tabs = line.split('\t').length;
+  if (tabs > semicolons && tabs > commas) {
+    return '\t';
+  }
+  return semicolons >= commas ? ';' : ',';
+}
+
+/** RFC 4180 parser; the delimiter is guessed from the header because Czech Excel exports use semicolons. */
+function parseCsv(text: string) {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+async function parseXlsx(buffer: Buffer) {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // exceljs types only accept a plain ArrayBuffer, so hand it a copy of the upload.
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+  } catch (error) {
+    throw new HttpError(400, 'Failed to read XLSX file', error instanceof Error ? error.message : undefined);
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber += 1) {
+    const row = sheet.getRow(rowNumber);
+    const values: string[] = [];
+    for (let column = 1; column <= row.cellCount; column += 1) {
+      values.push(row.getCell(column).text ?? '');
+    }
+    rows.push(values);
+  }
+  return rows;
+}
+
+function isXlsx(buffer: Buffer) {
+  // XLSX is a zip archive, which always starts with the "PK" local file header.
+  return buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04;
+}
+
+/**
+ * Reads the first sheet of an XLSX file or a CSV file and maps its columns to
+ * competitor fields by header name. Blank rows are skipped; values are left as
+ * trimmed strings for the caller to validate.
+ */
+export async function parseCompetitorSheet(buffer: Buffer): Promise<ImportedRow[]> {
+  const table = isXlsx(buffer) ? await parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
+  const [header, ...body] = table;
+  if (!header) {
+    throw new HttpError(400, 'Import file is empty');
+  }
+
+  const columns = new Map<number, ImportField>();
+  header.forEach((title, index) => {
+    const normalized = normalizeHeader(title);
+    const field = (Object.keys(HEADER_ALIASES) as ImportField[]).find((key) =>
+      HEADER_ALIASES[key].includes(normalized),
+    );
+    if (field && !Array.from(columns.values()).includes(field)) {
+      columns.set(index, field);
+    }
+  });
+
+  const mapped = Array.from(columns.values());
+  const missing = REQUIRED_FIELDS.filter((field) => !mapped.includes(field));
+  if (missing.length > 0) {
+    throw new HttpError(422, 'Missing required columns', { missing, header });
+  }
+
+  const rows: ImportedRow[] = [];
+  body.forEach((cells, index) => {
+    const values: ImportedRow['values'] = {};
+    for (const [column, field] of columns) {
+      const value = cells[column]?.trim();
+      if (value) {
+        values[field] = value;
+      }
+    }
+    if (Object.keys(values).length > 0) {
+      rows.push({ row: index + 2, values });
+    }
+  });
+
+  return rows;
+}
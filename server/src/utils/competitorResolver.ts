@@ -0,0 +1,84 @@
+import { supabase } from '../supabase.js';
+import type { CompetitorRow } from '../types.js';
+import { HttpError } from './errors.js';
+import { handleSupabaseMaybe } from './supabase.js';
+
+const COMPETITOR_COLUMNS = 'id, event_id, category_code, display_name, club, start_number, qr_token';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type CompetitorMatch = 'id' | 'current_token' | 'token_history' | 'start_number';
+
+export interface ResolvedCompetitor {
+  competitor: CompetitorRow;
+  matchedBy: CompetitorMatch;
+}
+
+async function findCompetitor(eventId: string, column: 'id' | 'qr_token' | 'start_number', value: string | number) {
+  return handleSupabaseMaybe<CompetitorRow>(
+    await supabase
+      .from('competitors')
+      .select(COMPETITOR_COLUMNS)
+      .eq('event_id', eventId)
+      .eq(column, value)
+      .maybeSingle(),
+    'Competitor not found',
+  );
+}
+
+export async function loadCompetitorById(eventId: string, competitorId: string) {
+  const competitor = await findCompetitor(eventId, 'id', competitorId);
+  if (!competitor) {
+    throw new HttpError(404, 'Competitor not found');
+  }
+  return competitor;
+}
+
+/**
+ * Resolves whatever identifies a competitor at the desk: an id, the current QR
+ * token, an older token from `qr_tokens`, or a start number. Revoked tokens
+ * fail with 410 so a reissued card is never silently mistaken for the old one.
+ */
+export async function resolveCompetitor(eventId: string, identifier: string): Promise<ResolvedCompetitor> {
+  const value = identifier.trim();
+  if (!value) {
+    throw new HttpError(404, 'Competitor not found');
+  }
+
+  if (UUID_PATTERN.test(value)) {
+    const byId = await findCompetitor(eventId, 'id', value);
+    if (byId) {
+      return { competitor: byId, matchedBy: 'id' };
+    }
+  }
+
+  const current = await findCompetitor(eventId, 'qr_token', value);
+  if (current) {
+    return { competitor: current, matchedBy: 'current_token' };
+  }
+
+  const history = handleSupabaseMaybe<{ competitor_id: string; revoked_at: string | null }>(
+    await supabase
+      .from('qr_tokens')
+      .select('competitor_id, revoked_at')
+      .eq('event_id', eventId)
+      .eq('token', value)
+      .maybeSingle(),
+    'Competitor not found',
+  );
+
+  if (history) {
+    if (history.revoked_at) {
+      throw new HttpError(410, 'Token revoked', { revokedAt: history.revoked_at });
+    }
+    return { competitor: await loadCompetitorById(eventId, history.competitor_id), matchedBy: 'token_history' };
+  }
+
+  if (/^\d+$/.test(value)) {
+    const byStartNumber = await findCompetitor(eventId, 'start_number', Number.parseInt(value, 10));
+    if (byStartNumber) {
+      return { competitor: byStartNumber, matchedBy: 'start_number' };
+    }
+  }
+
+  throw new HttpError(404, 'Competitor not found');
+}
@@ -0,0 +1,48 @@
+import { supabase } from '../supabase.js';
+import type { CompetitorRow } from '../types.js';
+import { ensureRows } from './supabase.js';
+
+const DEFAULT_LIMIT = 20;
+
+export function normalizeSearchText(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Finds competitors by start number, or by a diacritics-insensitive fragment
+ * of their name or club, ordered by start number. Only categories in
+ * `allowedCategories` are searched; null searches the whole event.
+ */
+export async function searchCompetitors(
+  eventId: string,
+  query: string,
+  allowedCategories: string[] | null,
+  limit = DEFAULT_LIMIT,
+) {
+  if (allowedCategories && allowedCategories.length === 0) {
+    return [];
+  }
+
+  // Filtering happens in search_competitors so large events are not cut off by the API row cap.
+  const competitors = ensureRows<CompetitorRow>(
+    await supabase.rpc('search_competitors', {
+      p_event_id: eventId,
+      p_query: query,
+      p_categories: allowedCategories,
+      p_limit: limit,
+    }),
+    'Failed to search competitors',
+  );
+
+  return competitors.map((competitor) => ({
+    id: competitor.id,
+    displayName: competitor.display_name,
+    categoryCode: competitor.category_code,
+    club: competitor.club,
+    startNumber: competitor.start_number,
+  }));
+}
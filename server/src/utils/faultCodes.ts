@@ -0,0 +1,32 @@
+import { supabase } from '../supabase.js';
+import type { FaultCodeRow } from '../types.js';
+import { HttpError } from './errors.js';
+import { ensureRows, handleSupabaseMaybe } from './supabase.js';
+
+export async function loadFaultCodes(eventId: string) {
+  return ensureRows<FaultCodeRow>(
+    await supabase
+      .from('fault_codes')
+      .select('id, event_id, code, label, description, ranking, display_order')
+      .eq('event_id', eventId)
+      .order('display_order', { ascending: true })
+      .order('code', { ascending: true }),
+    'Failed to load fault codes',
+  );
+}
+
+export async function assertFaultCodeExists(eventId: string, faultCode: string) {
+  const faultCodeRow = handleSupabaseMaybe<FaultCodeRow>(
+    await supabase
+      .from('fault_codes')
+      .select('id, code')
+      .eq('event_id', eventId)
+      .eq('code', faultCode)
+      .maybeSingle(),
+    'Failed to load fault code',
+  );
+
+  if (!faultCodeRow) {
+    throw new HttpError(400, `Unknown fault code ${faultCode}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { supabase } from '../supabase.js';
+import type { CategoryRow } from '../types.js';
+import { HttpError } from './errors.js';
+import { handleSupabaseMaybe } from './supabase.js';
+
+/** Rejects writes to a category whose results have been declared final. */
+export async function assertCategoryOpen(eventId: string, categoryCode: string) {
+  const category = handleSupabaseMaybe<Pick<CategoryRow, 'code' | 'finalized_at'>>(
+    await supabase
+      .from('categories')
+      .select('code, finalized_at')
+      .eq('event_id', eventId)
+      .eq('code', categoryCode)
+      .maybeSingle(),
+    'Failed to load category',
+  );
+
+  if (category?.finalized_at) {
+    throw new HttpError(409, `Category ${categoryCode} is finalized`, { finalizedAt: category.finalized_at });
+  }
+}
+
+export async function assertCompetitorCategoryOpen(eventId: string, competitorId: string) {
+  const competitor = handleSupabaseMaybe<{ category_code: string }>(
+    await supabase
+      .from('competitors')
+      .select('category_code')
+      .eq('event_id', eventId)
+      .eq('id', competitorId)
+      .maybeSingle(),
+    'Competitor not found',
+  );
+
+  if (!competitor) {
+    throw new HttpError(404, 'Competitor not found');
+  }
+
+  await assertCategoryOpen(eventId, competitor.category_code);
+}
@@ -1,5 +1,5 @@
 import argon2 from 'argon2';
-import { pbkdf2 as pbkdf2Callback, timingSafeEqual } from 'node:crypto';
+import { pbkdf2 as pbkdf2Callback, randomInt, timingSafeEqual } from 'node:crypto';
 import { promisify } from 'node:util';
 
 const pbkdf2 = promisify(pbkdf2Callback);
@@ -45,3 +45,17 @@ export async function verifyPassword(hash: string, password: string) {
 
   return argon2.verify(hash, password);
 }
+
+export async function hashPassword(password: string) {
+  return argon2.hash(password, { type: argon2.argon2id });
+}
+
+/** Temporary password handed to a user by the admin; avoids characters that are easy to misread. */
+export function generatePassword(length = 12) {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let value = '';
+  for (let i = 0; i < length; i += 1) {
+    value += alphabet[randomInt(alphabet.length)];
+  }
+  return value;
+}
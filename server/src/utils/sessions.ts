@@ -0,0 +1,101 @@
+import { env } from '../env.js';
+import { supabase } from '../supabase.js';
+import { HttpError } from './errors.js';
+
+interface SessionStatusEntry {
+  active: Promise<boolean>;
+  expiresAt: number;
+}
+
+const SESSION_STATUS_CACHE_LIMIT = 5000;
+
+/**
+ * Short-lived cache of "is this session still usable" keyed by session id. Concurrent
+ * requests of one device share a single lookup; revocations done by this process are
+ * written straight into the cache, other instances pick them up once the entry expires.
+ */
+const sessionStatusCache = new Map<string, SessionStatusEntry>();
+
+function cacheSessionStatus(sessionId: string, active: Promise<boolean>) {
+  const now = Date.now();
+  if (sessionStatusCache.size >= SESSION_STATUS_CACHE_LIMIT) {
+    for (const [key, entry] of sessionStatusCache) {
+      if (entry.expiresAt <= now) {
+        sessionStatusCache.delete(key);
+      }
+    }
+  }
+  sessionStatusCache.set(sessionId, { active, expiresAt: now + env.SESSION_STATUS_TTL_SECONDS * 1000 });
+}
+
+async function loadSessionStatus(sessionId: string) {
+  const session = await supabase
+    .from('user_sessions')
+    .select('user_id, revoked_at, expires_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (session.error) {
+    throw new HttpError(500, 'Failed to verify session', session.error);
+  }
+
+  if (!session.data || session.data.revoked_at || new Date(session.data.expires_at).getTime() <= Date.now()) {
+    return false;
+  }
+
+  const user = await supabase.from('users').select('active').eq('id', session.data.user_id).maybeSingle();
+
+  if (user.error) {
+    throw new HttpError(500, 'Failed to verify session', user.error);
+  }
+
+  return Boolean(user.data?.active);
+}
+
+/** Resolves whether the session is neither revoked nor expired and its user is still active. */
+export function isSessionActive(sessionId: string) {
+  const cached = sessionStatusCache.get(sessionId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.active;
+  }
+
+  const active = loadSessionStatus(sessionId);
+  cacheSessionStatus(sessionId, active);
+  // Failed lookups must not stick; the next request retries against the database.
+  active.catch(() => {
+    if (sessionStatusCache.get(sessionId)?.active === active) {
+      sessionStatusCache.delete(sessionId);
+    }
+  });
+  return active;
+}
+
+/** Makes revocations performed by this process effective immediately instead of after the cache TTL. */
+export function markSessionsRevoked(sessionIds: string[]) {
+  for (const sessionId of sessionIds) {
+    cacheSessionStatus(sessionId, Promise.resolve(false));
+  }
+}
+
+/** Revokes every open session of the user, across all events unless `eventId` narrows it down. */
+export async function revokeUserSessions(userId: string, eventId?: string) {
+  let query = supabase
+    .from('user_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (eventId) {
+    query = query.eq('event_id', eventId);
+  }
+
+  const update = await query.select('id');
+
+  if (update.error) {
+    throw new HttpError(500, 'Failed to revoke sessions', update.error);
+  }
+
+  const revoked = (update.data ?? []).map((session) => session.id as string);
+  markSessionsRevoked(revoked);
+  return revoked;
+}
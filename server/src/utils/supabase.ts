@@ -27,3 +27,23 @@ export function ensureRows<T>(response: { data: T[] | null; error: PostgrestErro
   }
   return response.data ?? [];
 }
+
+const ROWS_PAGE_SIZE = 1000;
+
+/**
+ * Collects every row of a query that may exceed PostgREST's 1000-row response cap.
+ * `page` must build a fresh, uniquely ordered query for the given range.
+ */
+export async function ensureAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+  message: string,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += ROWS_PAGE_SIZE) {
+    const chunk = ensureRows(await page(from, from + ROWS_PAGE_SIZE - 1), message);
+    rows.push(...chunk);
+    if (chunk.length < ROWS_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { supabase } from '../supabase.js';
+import type { EventRow, NodeRow } from '../types.js';
+import { HttpError } from './errors.js';
+import { handleSupabaseMaybe } from './supabase.js';
+
+export type AttemptResult =
+  | { kind: 'time'; centiseconds: number; source?: 'manual' | 'stopwatch' }
+  | { kind: 'fault'; faultCode: string };
+
+export function formatCentiseconds(value: number) {
+  const totalSeconds = Math.floor(value / 100);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const centiseconds = value % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+/**
+ * Checks a recorded time against the node's max_time_centiseconds. Depending on
+ * the event's time_limit_policy an over-limit time is rejected or converted
+ * into the configured time-limit fault.
+ */
+export async function applyNodeTimeLimit(eventId: string, nodeId: string, result: AttemptResult) {
+  if (result.kind !== 'time') {
+    return { result, exceeded: false, note: null as string | null };
+  }
+
+  const node = handleSupabaseMaybe<NodeRow>(
+    await supabase
+      .from('nodes')
+      .select('id, event_id, code, max_time_centiseconds')
+      .eq('id', nodeId)
+      .eq('event_id', eventId)
+      .maybeSingle(),
+    'Failed to load node',
+  );
+
+  if (!node) {
+    throw new HttpError(404, 'Node not found');
+  }
+
+  const limit = node.max_time_centiseconds ?? null;
+  if (limit == null || result.centiseconds <= limit) {
+    return { result, exceeded: false, note: null as string | null };
+  }
+
+  const event = handleSupabaseMaybe<EventRow>(
+    await supabase
+      .from('events')
+      .select('id, time_limit_policy, time_limit_fault_code')
+      .eq('id', eventId)
+      .maybeSingle(),
+    'Failed to load event',
+  );
+
+  if (event?.time_limit_policy === 'fault' && event.time_limit_fault_code) {
+    return {
+      result: { kind: 'fault', faultCode: event.time_limit_fault_code } as AttemptResult,
+      exceeded: true,
+      note: `Čas ${formatCentiseconds(result.centiseconds)} překročil limit ${formatCentiseconds(limit)}`,
+    };
+  }
+
+  throw new HttpError(422, `Time exceeds the node limit of ${formatCentiseconds(limit)}`, {
+    limitCentiseconds: limit,
+    centiseconds: result.centiseconds,
+  });
+}
+
+/** Appends the automatic time-limit note to the user's note so neither is lost. */
+export function withTimeLimitNote(note: string | null | undefined, limitNote: string | null) {
+  if (!limitNote) {
+    return note ?? null;
+  }
+  if (!note) {
+    return limitNote;
+  }
+  return note.includes(limitNote) ? note : `${note} · ${limitNote}`;
+}
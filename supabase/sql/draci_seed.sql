@@ -73,6 +73,21 @@ join nodes n on n.event_id = cm.event_id and n.code = nodes.code
 on conflict (event_id, category_code, node_id) do update
 set sequence = excluded.sequence;
 
+with event_cte as (
+  select id as event_id from events where slug = 'draci-smycka'
+)
+insert into fault_codes (event_id, code, label, description, ranking, display_order)
+select event_id, code, label, description, ranking, display_order
+from event_cte
+cross join (values
+  ('333', 'Nesplněno', 'Uzel nebyl uvázán správně nebo nebyl dokončen', 'last'::fault_ranking, 10)
+) as v(code, label, description, ranking, display_order)
+on conflict (event_id, code) do update
+set label = excluded.label,
+    description = excluded.description,
+    ranking = excluded.ranking,
+    display_order = excluded.display_order;
+
 insert into seed_history (tag)
 values ('draci_smycka_seed')
 on conflict (tag) do nothing;
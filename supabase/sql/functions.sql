@@ -0,0 +1,325 @@
+-- Dračí smyčka database functions called through RPC
+
+-- Attempt recording ----------------------------------------------------------
+--
+-- Records one attempt together with its audit row in a single transaction.
+-- Submissions for the same competitor and node are serialised with an
+-- advisory lock, so two devices at one node get a clean conflict instead of
+-- partial state. Rule violations raise SQLSTATE DSA01–DSA05 which the API
+-- maps to HTTP 409.
+
+create or replace function record_attempt(
+  p_event_id uuid,
+  p_competitor_id uuid,
+  p_node_id uuid,
+  p_attempt_number smallint,
+  p_result_kind attempt_result_kind,
+  p_centiseconds int,
+  p_time_source attempt_time_source,
+  p_fault_code text,
+  p_note text,
+  p_recorded_by uuid,
+  p_recorded_role user_role,
+  p_recorded_ip inet default null,
+  p_attempt_id uuid default null,
+  p_enforce_order boolean default true
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_existing attempts;
+  v_attempt1 attempts;
+  v_attempt2 attempts;
+  v_created attempts;
+begin
+  perform pg_advisory_xact_lock(hashtextextended(p_competitor_id::text || ':' || p_node_id::text, 0));
+
+  -- Offline clients replay queued submissions with the same attempt id.
+  if p_attempt_id is not null then
+    select * into v_existing from attempts where id = p_attempt_id;
+    if found then
+      if v_existing.event_id = p_event_id
+        and v_existing.competitor_id = p_competitor_id
+        and v_existing.node_id = p_node_id
+        and v_existing.attempt_number = p_attempt_number then
+        return jsonb_build_object('attempt', to_jsonb(v_existing), 'replayed', true);
+      end if;
+      raise exception 'Attempt id already used' using errcode = 'DSA05';
+    end if;
+  end if;
+
+  select * into v_attempt1 from attempts
+  where event_id = p_event_id
+    and competitor_id = p_competitor_id
+    and node_id = p_node_id
+    and attempt_number = 1;
+
+  select * into v_attempt2 from attempts
+  where event_id = p_event_id
+    and competitor_id = p_competitor_id
+    and node_id = p_node_id
+    and attempt_number = 2;
+
+  if p_attempt_number = 1 then
+    if v_attempt1.id is not null then
+      raise exception 'Attempt 1 already exists' using errcode = 'DSA01';
+    end if;
+  else
+    if p_enforce_order and v_attempt1.id is null then
+      raise exception 'Attempt 1 must be recorded first' using errcode = 'DSA02';
+    end if;
+    if p_enforce_order and not v_attempt1.locked then
+      raise exception 'Attempt 1 is not locked yet' using errcode = 'DSA03';
+    end if;
+    if v_attempt2.id is not null then
+      raise exception 'Attempt 2 already exists' using errcode = 'DSA04';
+    end if;
+  end if;
+
+  insert into attempts (
+    id,
+    event_id,
+    competitor_id,
+    node_id,
+    attempt_number,
+    result_kind,
+    centiseconds,
+    time_source,
+    fault_code,
+    note,
+    locked,
+    recorded_by,
+    recorded_role,
+    recorded_ip
+  )
+  values (
+    coalesce(p_attempt_id, gen_random_uuid()),
+    p_event_id,
+    p_competitor_id,
+    p_node_id,
+    p_attempt_number,
+    p_result_kind,
+    p_centiseconds,
+    p_time_source,
+    p_fault_code,
+    p_note,
+    true,
+    p_recorded_by,
+    p_recorded_role,
+    p_recorded_ip
+  )
+  returning * into v_created;
+
+  insert into attempt_audit_logs (
+    event_id,
+    attempt_id,
+    competitor_id,
+    node_id,
+    attempt_number,
+    action,
+    new_value,
+    changed_by,
+    changed_role,
+    changed_ip
+  )
+  values (
+    p_event_id,
+    v_created.id,
+    p_competitor_id,
+    p_node_id,
+    p_attempt_number,
+    'attempt_created',
+    to_jsonb(v_created),
+    p_recorded_by,
+    p_recorded_role,
+    p_recorded_ip
+  );
+
+  return jsonb_build_object('attempt', to_jsonb(v_created), 'replayed', false);
+end;
+$$;
+
+revoke all on function record_attempt(
+  uuid, uuid, uuid, smallint, attempt_result_kind, int, attempt_time_source, text, text, uuid, user_role, inet, uuid, boolean
+) from public, anon, authenticated;
+
+-- Voiding attempts -----------------------------------------------------------
+--
+-- Deletes an attempt recorded against the wrong competitor or node. The audit
+-- row keeps the full previous value together with the reason. When attempt 1
+-- is voided while attempt 2 exists, p_mode decides what happens to it:
+-- 'cascade' voids attempt 2 as well, 'promote' renumbers it to attempt 1.
+-- Without a mode the call fails with DSA07 so nothing is lost by accident.
+
+create or replace function void_attempt(
+  p_event_id uuid,
+  p_attempt_id uuid,
+  p_reason text,
+  p_mode text,
+  p_changed_by uuid,
+  p_changed_role user_role,
+  p_changed_ip inet default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_attempt attempts;
+  v_attempt2 attempts;
+  v_promoted attempts;
+  v_deleted jsonb := '[]'::jsonb;
+begin
+  select * into v_attempt from attempts where id = p_attempt_id and event_id = p_event_id;
+  if not found then
+    raise exception 'Attempt not found' using errcode = 'DSA06';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtextextended(v_attempt.competitor_id::text || ':' || v_attempt.node_id::text, 0));
+
+  -- Re-read under the lock in case a concurrent void got here first.
+  select * into v_attempt from attempts where id = p_attempt_id and event_id = p_event_id;
+  if not found then
+    raise exception 'Attempt not found' using errcode = 'DSA06';
+  end if;
+
+  if v_attempt.attempt_number = 1 then
+    select * into v_attempt2 from attempts
+    where event_id = p_event_id
+      and competitor_id = v_attempt.competitor_id
+      and node_id = v_attempt.node_id
+      and attempt_number = 2;
+
+    if v_attempt2.id is not null and coalesce(p_mode, '') not in ('cascade', 'promote') then
+      raise exception 'Attempt 2 exists, choose cascade or promote' using errcode = 'DSA07';
+    end if;
+  end if;
+
+  insert into attempt_audit_logs (
+    event_id, attempt_id, competitor_id, node_id, attempt_number, action,
+    previous_value, new_value, changed_by, changed_role, changed_ip
+  )
+  values (
+    p_event_id, v_attempt.id, v_attempt.competitor_id, v_attempt.node_id, v_attempt.attempt_number,
+    'attempt_deleted', to_jsonb(v_attempt), jsonb_build_object('reason', p_reason, 'mode', p_mode),
+    p_changed_by, p_changed_role, p_changed_ip
+  );
+
+  delete from attempts where id = v_attempt.id;
+  v_deleted := v_deleted || jsonb_build_array(to_jsonb(v_attempt));
+
+  if v_attempt2.id is not null and p_mode = 'cascade' then
+    insert into attempt_audit_logs (
+      event_id, attempt_id, competitor_id, node_id, attempt_number, action,
+      previous_value, new_value, changed_by, changed_role, changed_ip
+    )
+    values (
+      p_event_id, v_attempt2.id, v_attempt2.competitor_id, v_attempt2.node_id, v_attempt2.attempt_number,
+      'attempt_deleted', to_jsonb(v_attempt2),
+      jsonb_build_object('reason', p_reason, 'mode', p_mode, 'cascadedFrom', v_attempt.id),
+      p_changed_by, p_changed_role, p_changed_ip
+    );
+
+    delete from attempts where id = v_attempt2.id;
+    v_deleted := v_deleted || jsonb_build_array(to_jsonb(v_attempt2));
+  elsif v_attempt2.id is not null and p_mode = 'promote' then
+    update attempts set attempt_number = 1 where id = v_attempt2.id
+    returning * into v_promoted;
+
+    insert into attempt_audit_logs (
+      event_id, attempt_id, competitor_id, node_id, attempt_number, action,
+      previous_value, new_value, changed_by, changed_role, changed_ip
+    )
+    values (
+      p_event_id, v_promoted.id, v_promoted.competitor_id, v_promoted.node_id, v_promoted.attempt_number,
+      'attempt_updated', to_jsonb(v_attempt2), to_jsonb(v_promoted),
+      p_changed_by, p_changed_role, p_changed_ip
+    );
+  end if;
+
+  return jsonb_build_object(
+    'deleted', v_deleted,
+    'promoted', case when v_promoted.id is null then null else to_jsonb(v_promoted) end
+  );
+end;
+$$;
+
+revoke all on function void_attempt(
+  uuid, uuid, text, text, uuid, user_role, inet
+) from public, anon, authenticated;
+
+-- Competitor search ----------------------------------------------------------
+--
+-- An all-digit query matches the start number, anything else a diacritics-
+-- and case-insensitive fragment of the name or club. p_categories limits the
+-- search to the caller's categories; null searches the whole event.
+
+create or replace function search_competitors(
+  p_event_id uuid,
+  p_query text,
+  p_categories text[] default null,
+  p_limit int default 20
+) returns setof competitors
+language plpgsql
+stable
+as $$
+declare
+  v_query text := btrim(p_query);
+  v_pattern text;
+begin
+  if v_query ~ '^\d{1,9}$' then
+    return query
+      select c.*
+      from competitors c
+      where c.event_id = p_event_id
+        and (p_categories is null or c.category_code::text = any(p_categories))
+        and c.start_number = v_query::int
+      order by c.display_name
+      limit p_limit;
+    return;
+  end if;
+
+  v_pattern := '%' || replace(replace(replace(unaccent(lower(v_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  return query
+    select c.*
+    from competitors c
+    where c.event_id = p_event_id
+      and (p_categories is null or c.category_code::text = any(p_categories))
+      and (
+        unaccent(lower(c.display_name)) like v_pattern
+        or unaccent(lower(coalesce(c.club, ''))) like v_pattern
+      )
+    order by c.start_number nulls last, c.display_name
+    limit p_limit;
+end;
+$$;
+
+revoke all on function search_competitors(uuid, text, text[], int) from public, anon, authenticated;
+
+-- Node order -----------------------------------------------------------------
+--
+-- Renumbers the event's nodes in the given order (10, 20, …) and copies the
+-- sequence onto their category mappings, all in one transaction so a failed
+-- call never leaves the course half reordered.
+
+create or replace function reorder_nodes(
+  p_event_id uuid,
+  p_node_ids uuid[]
+) returns void
+language plpgsql
+as $$
+begin
+  update nodes n
+  set sequence = o.position * 10
+  from unnest(p_node_ids) with ordinality as o(node_id, position)
+  where n.id = o.node_id
+    and n.event_id = p_event_id;
+
+  update category_nodes cn
+  set sequence = o.position * 10
+  from unnest(p_node_ids) with ordinality as o(node_id, position)
+  where cn.node_id = o.node_id
+    and cn.event_id = p_event_id;
+end;
+$$;
+
+revoke all on function reorder_nodes(uuid, uuid[]) from public, anon, authenticated;
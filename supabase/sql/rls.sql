@@ -9,6 +9,7 @@ alter table user_event_roles enable row level security;
 alter table category_nodes enable row level security;
 alter table competitors enable row level security;
 alter table qr_tokens enable row level security;
+alter table fault_codes enable row level security;
 alter table attempts enable row level security;
 alter table attempt_audit_logs enable row level security;
 alter table user_sessions enable row level security;
@@ -61,6 +62,12 @@ drop policy if exists qr_tokens_read_authenticated on qr_tokens;
 create policy qr_tokens_read_authenticated on qr_tokens
   for select using (auth.role() in ('authenticated', 'service_role'));
 
+-- Fault codes ---------------------------------------------------------------
+
+drop policy if exists fault_codes_read_all on fault_codes;
+create policy fault_codes_read_all on fault_codes
+  for select using (auth.role() in ('anon', 'authenticated', 'service_role'));
+
 -- Attempts ------------------------------------------------------------------
 
 drop policy if exists attempts_read_authenticated on attempts;
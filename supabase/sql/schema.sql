@@ -1,5 +1,8 @@
 -- Dračí smyčka core schema
 
+-- Diacritics-insensitive competitor search (search_competitors in functions.sql).
+create extension if not exists unaccent;
+
 -- Enums --------------------------------------------------------------------
 
 do $$ begin
@@ -14,17 +17,67 @@ do $$ begin
   create type attempt_result_kind as enum ('time', 'fault');
 exception when duplicate_object then null; end $$;
 
+do $$ begin
+  create type attempt_time_source as enum ('manual', 'stopwatch');
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create type time_limit_policy as enum ('reject', 'fault');
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create type fault_ranking as enum ('last', 'after_finishers');
+exception when duplicate_object then null; end $$;
+
 do $$ begin
   create type audit_action as enum (
     'attempt_created',
     'attempt_updated',
     'attempt_deleted',
+    'attempt_reverted',
+    'category_finalized',
+    'category_reopened',
     'token_generated',
     'token_revoked',
-    'competitor_updated'
+    'competitor_created',
+    'competitor_updated',
+    'user_created',
+    'user_updated',
+    'user_password_reset',
+    'role_assigned',
+    'role_unassigned',
+    'session_revoked',
+    'node_created',
+    'node_updated',
+    'node_deleted',
+    'nodes_reordered',
+    'category_created',
+    'category_updated',
+    'category_deleted',
+    'category_nodes_updated'
   );
 exception when duplicate_object then null; end $$;
 
+-- The block above skips an existing type, so values added later are appended here.
+alter type audit_action add value if not exists 'attempt_reverted';
+alter type audit_action add value if not exists 'category_finalized';
+alter type audit_action add value if not exists 'category_reopened';
+alter type audit_action add value if not exists 'competitor_created';
+alter type audit_action add value if not exists 'user_created';
+alter type audit_action add value if not exists 'user_updated';
+alter type audit_action add value if not exists 'user_password_reset';
+alter type audit_action add value if not exists 'role_assigned';
+alter type audit_action add value if not exists 'role_unassigned';
+alter type audit_action add value if not exists 'session_revoked';
+alter type audit_action add value if not exists 'node_created';
+alter type audit_action add value if not exists 'node_updated';
+alter type audit_action add value if not exists 'node_deleted';
+alter type audit_action add value if not exists 'nodes_reordered';
+alter type audit_action add value if not exists 'category_created';
+alter type audit_action add value if not exists 'category_updated';
+alter type audit_action add value if not exists 'category_deleted';
+alter type audit_action add value if not exists 'category_nodes_updated';
+
 -- Core tables ---------------------------------------------------------------
 
 create table if not exists events (
@@ -34,6 +87,10 @@ create table if not exists events (
   base_path text not null default '/draci-smycka',
   starts_at timestamptz,
   ends_at timestamptz,
+  -- What happens to a time over nodes.max_time_centiseconds: reject it, or
+  -- record it as a fault with time_limit_fault_code.
+  time_limit_policy time_limit_policy not null default 'reject',
+  time_limit_fault_code text,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -59,6 +116,9 @@ create table if not exists categories (
   name text not null,
   description text,
   display_order int not null default 100,
+  -- Set once the office declares the category's results official.
+  finalized_at timestamptz,
+  finalized_by uuid references users(id) on delete set null,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
   unique (event_id, code)
@@ -155,6 +215,21 @@ create table if not exists qr_tokens (
 
 create index if not exists qr_tokens_competitor_idx on qr_tokens(competitor_id);
 
+create table if not exists fault_codes (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  code text not null,
+  label text not null,
+  description text,
+  -- last: placed like a competitor without a time; after_finishers: placed
+  -- right behind everyone who recorded a time on the node.
+  ranking fault_ranking not null default 'last',
+  display_order int not null default 100,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (event_id, code)
+);
+
 create table if not exists attempts (
   id uuid primary key default gen_random_uuid(),
   event_id uuid not null references events(id) on delete cascade,
@@ -163,6 +238,7 @@ create table if not exists attempts (
   attempt_number smallint not null,
   result_kind attempt_result_kind not null,
   centiseconds int,
+  time_source attempt_time_source,
   fault_code text,
   note text,
   locked boolean not null default false,
@@ -210,6 +286,8 @@ create table if not exists user_sessions (
   created_at timestamptz not null default now(),
   device_info text,
   created_ip inet,
+  -- Bumped on every /auth/refresh so admins can tell a live device from a stale one.
+  last_refreshed_at timestamptz,
   revoked_at timestamptz
 );
 
@@ -222,6 +300,18 @@ create table if not exists seed_history (
   applied_at timestamptz not null default now()
 );
 
+-- Upgrades of existing databases -------------------------------------------
+--
+-- `create table if not exists` skips tables that are already there, so columns
+-- added after the first release are added here as well.
+
+alter table events add column if not exists time_limit_policy time_limit_policy not null default 'reject';
+alter table events add column if not exists time_limit_fault_code text;
+alter table categories add column if not exists finalized_at timestamptz;
+alter table categories add column if not exists finalized_by uuid references users(id) on delete set null;
+alter table attempts add column if not exists time_source attempt_time_source;
+alter table user_sessions add column if not exists last_refreshed_at timestamptz;
+
 -- Utility view support: ensure stable updated_at triggers -------------------
 
 do $$
@@ -239,26 +329,30 @@ begin
 end;
 $$;
 
-create trigger events_set_updated_at
+create or replace trigger events_set_updated_at
   before update on events
   for each row execute function set_updated_at_row();
 
-create trigger users_set_updated_at
+create or replace trigger users_set_updated_at
   before update on users
   for each row execute function set_updated_at_row();
 
-create trigger categories_set_updated_at
+create or replace trigger categories_set_updated_at
   before update on categories
   for each row execute function set_updated_at_row();
 
-create trigger nodes_set_updated_at
+create or replace trigger nodes_set_updated_at
   before update on nodes
   for each row execute function set_updated_at_row();
 
-create trigger competitors_set_updated_at
+create or replace trigger fault_codes_set_updated_at
+  before update on fault_codes
+  for each row execute function set_updated_at_row();
+
+create or replace trigger competitors_set_updated_at
   before update on competitors
   for each row execute function set_updated_at_row();
 
-create trigger attempts_set_updated_at
+create or replace trigger attempts_set_updated_at
   before update on attempts
   for each row execute function set_updated_at_row();
@@ -31,8 +31,14 @@ select
   a.competitor_id,
   min(a.centiseconds) filter (where a.result_kind = 'time') as best_centiseconds,
   coalesce(bool_or(a.result_kind = 'fault'), false) as has_fault,
+  (
+    array_agg(a.fault_code order by coalesce(fc.ranking = 'after_finishers', false) desc, a.attempt_number desc)
+      filter (where a.result_kind = 'fault')
+  )[1] as fault_code,
+  coalesce(bool_or(fc.ranking = 'after_finishers'), false) as fault_after_finishers,
   (count(*) > 0) as has_any_attempt
 from attempts a
+left join fault_codes fc on fc.event_id = a.event_id and fc.code = a.fault_code
 group by
   a.event_id,
   a.node_id,
@@ -50,6 +56,8 @@ with base as (
     c.id as competitor_id,
     nb.best_centiseconds,
     coalesce(nb.has_fault, false) as has_fault,
+    nb.fault_code,
+    coalesce(nb.fault_after_finishers, false) as fault_after_finishers,
     coalesce(nb.has_any_attempt, false) as has_any_attempt
   from category_nodes cn
   join competitors c on c.event_id = cn.event_id and c.category_code = cn.category_code
@@ -80,6 +88,7 @@ select
   r.competitor_id,
   r.best_centiseconds,
   r.has_fault,
+  case when r.best_centiseconds is null then r.fault_code else null end as fault_code,
   r.has_any_attempt,
   case
     when r.best_centiseconds is not null then 'time'
@@ -91,6 +100,7 @@ select
   r.competitor_count,
   case
     when r.best_centiseconds is not null then r.time_rank
+    when r.has_fault and r.fault_after_finishers then r.finisher_count + 1
     else r.competitor_count
   end as placement,
   case
@@ -3,6 +3,8 @@ import { useAuth } from './context/AuthContext';
 import LoginPage from './pages/LoginPage';
 import JudgePage from './pages/JudgePage';
 import CalculatorPage from './pages/CalculatorPage';
+import CalculatorGridPage from './pages/CalculatorGridPage';
+import CompletenessPage from './pages/CompletenessPage';
 import AdminPage from './pages/AdminPage';
 import LeaderboardPage from './pages/LeaderboardPage';
 import NotFoundPage from './pages/NotFoundPage';
@@ -107,6 +109,22 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/calculator/grid"
+              element={
+                <ProtectedRoute allowedRoles={['calculator']}>
+                  <CalculatorGridPage />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/calculator/completeness"
+              element={
+                <ProtectedRoute allowedRoles={['calculator']}>
+                  <CompletenessPage />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin"
               element={
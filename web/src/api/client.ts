@@ -1,6 +1,30 @@
 export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? 'http://localhost:8787').replace(/\/$/, '');
 
-export async function apiFetch<T>(path: string, init: RequestInit = {}, token?: string): Promise<T> {
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+function parseErrorBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function apiFetch<T>(
+  path: string,
+  init: RequestInit = {},
+  token?: string,
+  onResponse?: (response: Response) => void,
+): Promise<T> {
   const headers = new Headers(init.headers);
   headers.set('Accept', 'application/json');
   if (!(init.body instanceof FormData) && !headers.has('Content-Type')) {
@@ -15,9 +39,11 @@ export async function apiFetch<T>(path: string, init: RequestInit = {}, token?:
     headers,
   });
 
+  onResponse?.(response);
+
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(text || response.statusText);
+    throw new ApiError(response.status, text || response.statusText, parseErrorBody(text));
   }
 
   const contentType = response.headers.get('Content-Type') ?? '';
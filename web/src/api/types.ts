@@ -1,5 +1,7 @@
 export type UserRole = 'admin' | 'judge' | 'calculator';
 
+export type AttemptTimeSource = 'manual' | 'stopwatch';
+
 export interface UserSummary {
   id: string;
   email: string;
@@ -7,11 +9,15 @@ export interface UserSummary {
   role: UserRole;
 }
 
+export type TimeLimitPolicy = 'reject' | 'fault';
+
 export interface EventSummary {
   id: string;
   name: string;
   slug: string;
   basePath: string;
+  timeLimitPolicy?: TimeLimitPolicy;
+  timeLimitFaultCode?: string | null;
 }
 
 export interface CategoryDto {
@@ -21,6 +27,8 @@ export interface CategoryDto {
   name: string;
   description: string | null;
   display_order: number;
+  finalized_at?: string | null;
+  finalized_by?: string | null;
 }
 
 export interface NodeDto {
@@ -31,11 +39,27 @@ export interface NodeDto {
   sequence: number;
   is_relay: boolean;
   counts_to_overall: boolean;
+  max_time_centiseconds?: number | null;
+  note?: string | null;
+}
+
+export type FaultRanking = 'last' | 'after_finishers';
+
+export interface FaultCodeDto {
+  id: string;
+  event_id: string;
+  code: string;
+  label: string;
+  description: string | null;
+  ranking: FaultRanking;
+  display_order: number;
 }
 
 export interface AssignmentsDto {
   nodeIds: string[];
   allowedCategories: string[];
+  /** Changes whenever the lists change; the server echoes the current one in `X-Assignments-Version`. */
+  version: string;
 }
 
 export interface AuthLoginResponse {
@@ -48,10 +72,17 @@ export interface AuthLoginResponse {
   assignments: AssignmentsDto;
   categories: CategoryDto[];
   nodes: NodeDto[];
+  faultCodes: FaultCodeDto[];
 }
 
 export interface RefreshResponse extends AuthLoginResponse {}
 
+export interface AuthAssignmentsResponse {
+  assignments: AssignmentsDto;
+  categories: CategoryDto[];
+  nodes: NodeDto[];
+}
+
 export interface CompetitorSummary {
   id: string;
   displayName: string;
@@ -60,6 +91,17 @@ export interface CompetitorSummary {
   startNumber: number | null;
 }
 
+export type CompetitorMatch = 'id' | 'current_token' | 'token_history' | 'start_number';
+
+export interface CompetitorLookupResponse {
+  competitor: CompetitorSummary & { qrToken: string | null };
+  matchedBy: CompetitorMatch;
+}
+
+export interface CompetitorSearchResponse {
+  competitors: CompetitorSummary[];
+}
+
 export interface AttemptDto {
   id: string;
   event_id: string;
@@ -68,6 +110,7 @@ export interface AttemptDto {
   attempt_number: number;
   result_kind: 'time' | 'fault';
   centiseconds: number | null;
+  time_source?: AttemptTimeSource | null;
   fault_code: string | null;
   note: string | null;
   locked: boolean;
@@ -79,11 +122,14 @@ export interface AttemptDto {
 
 export interface JudgeLookupResponse {
   competitor: CompetitorSummary;
+  matchedBy: CompetitorMatch;
   attempts: AttemptDto[];
   nodeIds: string[];
+  categoryNodeIds: string[];
 }
 
 export interface JudgeAttemptRequest {
+  attemptId?: string;
   competitorId: string;
   nodeId: string;
   attemptNumber: number;
@@ -91,6 +137,7 @@ export interface JudgeAttemptRequest {
     | {
         kind: 'time';
         centiseconds: number;
+        source?: AttemptTimeSource;
       }
     | {
         kind: 'fault';
@@ -101,6 +148,7 @@ export interface JudgeAttemptRequest {
 
 export interface JudgeAttemptResponse {
   attempt: AttemptDto;
+  replayed?: boolean;
 }
 
 export interface CalculatorCompetitorResponse {
@@ -113,6 +161,7 @@ export interface CalculatorCompetitorResponse {
     qrToken: string | null;
   };
   nodes: NodeDto[];
+  categoryNodeIds: string[];
   attemptsByNode: Record<string, AttemptDto[]>;
   bestByNode: Record<string, unknown>;
 }
@@ -130,8 +179,169 @@ export interface CalculatorUpdateAttemptRequest {
   note?: string;
 }
 
+export interface CalculatorEditAttemptRequest extends CalculatorUpdateAttemptRequest {
+  expectedUpdatedAt: string;
+}
+
+export interface CalculatorAttemptConflictResponse {
+  error: string;
+  details: {
+    current: AttemptDto;
+  };
+}
+
+export interface CalculatorSheetResponse {
+  categoryCode: string;
+  nodes: NodeDto[];
+  competitors: CompetitorSummary[];
+  attempts: AttemptDto[];
+}
+
+export interface CalculatorBatchChange extends CalculatorUpdateAttemptRequest {
+  competitorId: string;
+  nodeId: string;
+  attemptNumber: 1 | 2;
+  attemptId?: string;
+  expectedUpdatedAt?: string;
+}
+
+export interface CalculatorBatchRequest {
+  changes: CalculatorBatchChange[];
+}
+
+export type CalculatorBatchResult =
+  | { index: number; ok: true; attempt: AttemptDto; timeLimitExceeded: boolean }
+  | { index: number; ok: false; status: number; error: string; details?: unknown };
+
+export interface CalculatorBatchResponse {
+  results: CalculatorBatchResult[];
+}
+
+export type NodeCompletionStatus = 'time' | 'fault' | 'incomplete' | 'missing';
+
+export interface CompletenessGap {
+  competitorId: string;
+  displayName: string;
+  startNumber: number | null;
+  status: NodeCompletionStatus;
+}
+
+export interface CompletenessNode {
+  nodeId: string;
+  nodeCode: string;
+  nodeName: string;
+  total: number;
+  complete: number;
+  percent: number;
+  gaps: CompletenessGap[];
+}
+
+export interface CalculatorCompletenessResponse {
+  categories: { categoryCode: string; nodes: CompletenessNode[] }[];
+}
+
 export interface CalculatorUpdateAttemptResponse {
   attempt: AttemptDto;
+  timeLimitExceeded?: boolean;
+}
+
+export type AuditAction =
+  | 'attempt_created'
+  | 'attempt_updated'
+  | 'attempt_deleted'
+  | 'attempt_reverted'
+  | 'category_finalized'
+  | 'category_reopened'
+  | 'token_generated'
+  | 'token_revoked'
+  | 'competitor_created'
+  | 'competitor_updated'
+  | 'user_created'
+  | 'user_updated'
+  | 'user_password_reset'
+  | 'role_assigned'
+  | 'role_unassigned'
+  | 'session_revoked'
+  | 'node_created'
+  | 'node_updated'
+  | 'node_deleted'
+  | 'nodes_reordered'
+  | 'category_created'
+  | 'category_updated'
+  | 'category_deleted'
+  | 'category_nodes_updated';
+
+export interface AttemptHistoryEntry {
+  id: string;
+  action: AuditAction;
+  attemptNumber: number | null;
+  previousValue: Partial<AttemptDto> | null;
+  newValue: (Partial<AttemptDto> & { reason?: string; mode?: string }) | null;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedRole: UserRole | null;
+  changedIp: string | null;
+  createdAt: string;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  action: AuditAction;
+  attemptId: string | null;
+  attemptNumber: number | null;
+  nodeId: string | null;
+  nodeName: string | null;
+  competitorId: string | null;
+  competitorName: string | null;
+  competitorStartNumber: number | null;
+  previousValue: unknown;
+  newValue: unknown;
+  changedBy: string | null;
+  changedByName: string | null;
+  changedRole: UserRole | null;
+  changedIp: string | null;
+  createdAt: string;
+}
+
+export interface AdminAuditResponse {
+  entries: AdminAuditEntry[];
+  nextCursor: string | null;
+}
+
+export interface CalculatorAttemptHistoryResponse {
+  history: AttemptHistoryEntry[];
+}
+
+export interface CalculatorRevertAttemptRequest {
+  auditLogId: string;
+  expectedUpdatedAt: string;
+}
+
+export interface CalculatorRevertAttemptResponse {
+  attempt: AttemptDto;
+}
+
+export type VoidAttemptMode = 'cascade' | 'promote';
+
+export interface CalculatorVoidAttemptRequest {
+  reason: string;
+  mode?: VoidAttemptMode;
+}
+
+export interface CalculatorVoidAttemptResponse {
+  deleted: AttemptDto[];
+  promoted: AttemptDto | null;
+}
+
+export interface CalculatorCreateAttemptRequest extends CalculatorUpdateAttemptRequest {
+  competitorId: string;
+  nodeId: string;
+  attemptNumber: 1 | 2;
+}
+
+export interface CalculatorCreateAttemptResponse {
+  attempt: AttemptDto;
+  timeLimitExceeded: boolean;
 }
 
 export interface LeaderboardEntry {
@@ -150,7 +360,18 @@ export interface LeaderboardEntry {
     club: string | null;
     startNumber: number | null;
   } | null;
-  nodes: unknown[];
+  nodes: LeaderboardNodeEntry[];
+}
+
+export interface LeaderboardNodeEntry {
+  node_id: string;
+  sequence: number;
+  best_centiseconds: number | null;
+  has_fault: boolean;
+  fault_code: string | null;
+  has_any_attempt: boolean;
+  status: 'time' | 'fault' | 'incomplete' | 'missing';
+  placement: number;
 }
 
 export interface RelayLeaderboardEntry {
@@ -170,22 +391,189 @@ export interface RelayLeaderboardEntry {
   } | null;
 }
 
+export interface LeaderboardCategory {
+  code: string;
+  name: string;
+  official: boolean;
+  finalizedAt: string | null;
+}
+
 export interface LeaderboardResponse {
   event: EventSummary;
+  categories: LeaderboardCategory[];
+  nodes: Pick<NodeDto, 'id' | 'code' | 'name' | 'sequence' | 'is_relay'>[];
+  faultCodes: Pick<FaultCodeDto, 'code' | 'label' | 'description'>[];
   categoryLeaderboards: LeaderboardEntry[];
   relayLeaderboards: RelayLeaderboardEntry[];
 }
 
 export interface AdminEventContextResponse {
-  event: EventSummary & {
+  event: {
+    id: string;
+    name: string;
+    slug: string;
+    base_path: string;
     starts_at: string | null;
     ends_at: string | null;
+    time_limit_policy: TimeLimitPolicy;
+    time_limit_fault_code: string | null;
   };
   categories: CategoryDto[];
   nodes: (NodeDto & { max_time_centiseconds: number | null; note: string | null })[];
+  categoryNodes: { category_code: string; node_id: string; sequence: number }[];
+  faultCodes: FaultCodeDto[];
   competitorCount: number;
 }
 
+export interface AdminNodeRequest {
+  code?: string;
+  name?: string;
+  sequence?: number;
+  isRelay?: boolean;
+  countsToOverall?: boolean;
+  maxTimeCentiseconds?: number | null;
+  note?: string | null;
+}
+
+export interface AdminReorderNodesRequest {
+  nodeIds: string[];
+}
+
+export interface AdminCategoryRequest {
+  code?: string;
+  name?: string;
+  description?: string | null;
+  displayOrder?: number;
+}
+
+export interface AdminCategoryNodesRequest {
+  nodeIds: string[];
+  confirmOrphanedAttempts?: boolean;
+}
+
+export interface AdminOrphanedAttemptsError {
+  error: string;
+  details?: { nodes?: { nodeId: string; attempts: number }[] };
+}
+
+export interface AdminCategoryFinalizationResponse {
+  category: CategoryDto;
+}
+
+export interface AdminCompetitorDto {
+  id: string;
+  event_id: string;
+  category_code: string;
+  display_name: string;
+  club: string | null;
+  start_number: number | null;
+  birth_year: number | null;
+  notes: string | null;
+  qr_token: string | null;
+  qr_token_issued_at: string | null;
+}
+
+export type AdminCompetitorSort = 'start_number' | 'display_name' | 'club' | 'category_code';
+
+export interface AdminCompetitorListResponse {
+  competitors: AdminCompetitorDto[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AdminImportRow {
+  row: number;
+  competitor: Omit<AdminCreateCompetitorRequest, 'generateToken'> | null;
+  errors: string[];
+}
+
+export interface AdminImportResponse {
+  dryRun: boolean;
+  summary: { total: number; valid: number; invalid: number };
+  rows: AdminImportRow[];
+  created?: AdminCompetitorDto[];
+}
+
+export interface AdminIssueTokenResponse {
+  token: string;
+}
+
+export interface AdminUserAssignment {
+  id: string;
+  user_id: string;
+  event_id: string;
+  role: UserRole;
+  node_id: string | null;
+  allowed_category_codes: string[];
+}
+
+export interface AdminUserDto {
+  id: string;
+  email: string;
+  display_name: string;
+  role: UserRole;
+  active: boolean;
+  last_login_at: string | null;
+  assignments: AdminUserAssignment[];
+}
+
+export interface AdminUsersResponse {
+  users: AdminUserDto[];
+}
+
+export interface AdminCreateUserRequest {
+  email: string;
+  displayName: string;
+  role: UserRole;
+  password?: string;
+}
+
+export interface AdminCreateUserResponse {
+  user: Omit<AdminUserDto, 'assignments'>;
+  password: string | null;
+}
+
+export interface AdminUpdateUserRequest {
+  displayName?: string;
+  role?: UserRole;
+  active?: boolean;
+}
+
+export interface AdminPasswordResetResponse {
+  password: string;
+}
+
+export interface AdminCreateAssignmentRequest {
+  role: UserRole;
+  nodeIds?: string[];
+  allowedCategoryCodes?: string[];
+}
+
+export interface AdminSessionDto {
+  id: string;
+  user_id: string;
+  event_id: string;
+  role: UserRole;
+  device_info: string | null;
+  created_ip: string | null;
+  created_at: string;
+  last_refreshed_at: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  user: { id: string; email: string; display_name: string } | null;
+  current: boolean;
+  nodeIds: string[];
+}
+
+export interface AdminSessionsResponse {
+  sessions: AdminSessionDto[];
+}
+
+export interface AdminRevokeUserSessionsResponse {
+  revoked: number;
+}
+
 export interface AdminCreateCompetitorRequest {
   displayName: string;
   categoryCode: string;
@@ -204,3 +592,15 @@ export interface AdminUpdateCompetitorRequest {
   birthYear?: number | null;
   notes?: string | null;
 }
+
+export interface AdminUpsertFaultCodeRequest {
+  label: string;
+  description?: string | null;
+  ranking?: FaultRanking;
+  displayOrder?: number;
+}
+
+export interface AdminUpdateEventSettingsRequest {
+  timeLimitPolicy?: TimeLimitPolicy;
+  timeLimitFaultCode?: string | null;
+}
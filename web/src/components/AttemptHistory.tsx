@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ApiError } from '../api/client';
+import type {
+  AttemptDto,
+  AttemptHistoryEntry,
+  AuditAction,
+  CalculatorAttemptConflictResponse,
+  CalculatorAttemptHistoryResponse,
+  CalculatorRevertAttemptRequest,
+  CalculatorRevertAttemptResponse,
+  FaultCodeDto,
+  UserRole,
+} from '../api/types';
+import { formatCentiseconds } from '../utils/time';
+import { formatFault } from '../utils/faults';
+
+interface AttemptHistoryProps {
+  attemptId: string;
+  /** updated_at of the attempt as shown; a revert fails with 409 if it changed since. */
+  updatedAt: string;
+  faultCodes: FaultCodeDto[];
+  onReverted: () => void;
+}
+
+const ACTION_LABELS: Partial<Record<AuditAction, string>> = {
+  attempt_created: 'Zápis',
+  attempt_updated: 'Úprava',
+  attempt_deleted: 'Smazání',
+  attempt_reverted: 'Vrácení',
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'admin',
+  judge: 'rozhodčí',
+  calculator: 'výpočetka',
+};
+
+function describeResult(value: Partial<AttemptDto> | null, faultCodes: FaultCodeDto[]) {
+  if (!value?.result_kind) {
+    return '—';
+  }
+  if (value.result_kind === 'time') {
+    return `${formatCentiseconds(value.centiseconds ?? null)}${value.time_source === 'stopwatch' ? ' (stopky)' : ''}`;
+  }
+  return formatFault(value.fault_code, faultCodes);
+}
+
+function describeChanges(entry: AttemptHistoryEntry, faultCodes: FaultCodeDto[]) {
+  const before = entry.previousValue;
+  const after = entry.newValue;
+
+  if (entry.action === 'attempt_created') {
+    return [`Výsledek: ${describeResult(after, faultCodes)}`];
+  }
+  if (entry.action === 'attempt_deleted') {
+    return [`Výsledek: ${describeResult(before, faultCodes)}`, `Důvod: ${after?.reason ?? '—'}`];
+  }
+
+  const changes: string[] = [];
+  const beforeResult = describeResult(before, faultCodes);
+  const afterResult = describeResult(after, faultCodes);
+  if (beforeResult !== afterResult) {
+    changes.push(`Výsledek: ${beforeResult} → ${afterResult}`);
+  }
+  if ((before?.note ?? null) !== (after?.note ?? null)) {
+    changes.push(`Poznámka: ${before?.note || '—'} → ${after?.note || '—'}`);
+  }
+  if (before?.attempt_number != null && after?.attempt_number != null && before.attempt_number !== after.attempt_number) {
+    changes.push(`Pokus: ${before.attempt_number} → ${after.attempt_number}`);
+  }
+  return changes.length > 0 ? changes : ['Beze změny hodnoty'];
+}
+
+export function AttemptHistory({ attemptId, updatedAt, faultCodes, onReverted }: AttemptHistoryProps) {
+  const { fetchWithAuth } = useAuth();
+  const [history, setHistory] = useState<AttemptHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(updatedAt);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchWithAuth<CalculatorAttemptHistoryResponse>(
+        `/calculator/attempts/${attemptId}/history`,
+      );
+      setHistory(response.history);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Historii se nepodařilo načíst');
+    } finally {
+      setLoading(false);
+    }
+  }, [attemptId, fetchWithAuth]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevert = async (entry: AttemptHistoryEntry) => {
+    const request: CalculatorRevertAttemptRequest = { auditLogId: entry.id, expectedUpdatedAt: version };
+    setError(null);
+    try {
+      await fetchWithAuth<CalculatorRevertAttemptResponse>(`/calculator/attempts/${attemptId}/revert`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+      await load();
+      onReverted();
+    } catch (err) {
+      console.error(err);
+      const current =
+        err instanceof ApiError && err.status === 409
+          ? (err.body as CalculatorAttemptConflictResponse | undefined)?.details?.current
+          : undefined;
+      if (current) {
+        // Show the newer change and let the next revert build on it.
+        setVersion(current.updated_at ?? '');
+        await load();
+        setError('Pokus mezitím změnil někdo jiný, zkontroluj historii a zkus to znovu');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Vrácení změny selhalo');
+    }
+  };
+
+  return (
+    <section className="attempt-history">
+      <h3>Historie pokusu</h3>
+      {loading ? <p>Načítám…</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      <table>
+        <thead>
+          <tr>
+            <th>Kdy</th>
+            <th>Akce</th>
+            <th>Kdo</th>
+            <th>Změna</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {history.map((entry) => {
+            const canRevert =
+              entry.action !== 'attempt_created' &&
+              entry.action !== 'attempt_deleted' &&
+              entry.previousValue?.id === attemptId &&
+              Boolean(entry.previousValue?.result_kind);
+            return (
+              <tr key={entry.id}>
+                <td>{new Date(entry.createdAt).toLocaleString('cs-CZ')}</td>
+                <td>{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                <td>
+                  {entry.changedByName ?? '—'}
+                  {entry.changedRole ? ` (${ROLE_LABELS[entry.changedRole]})` : ''}
+                  {entry.changedIp ? <small className="attempt-history__ip">{entry.changedIp}</small> : null}
+                </td>
+                <td>
+                  {describeChanges(entry, faultCodes).map((line) => (
+                    <div key={line}>{line}</div>
+                  ))}
+                </td>
+                <td>
+                  {canRevert ? (
+                    <button type="button" className="secondary" onClick={() => handleRevert(entry)}>
+                      Vrátit původní
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+import { FormEvent, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import type { CompetitorSearchResponse, CompetitorSummary } from '../api/types';
+
+interface CompetitorSearchProps {
+  endpoint: string;
+  onSelect: (competitor: CompetitorSummary) => void;
+}
+
+export function CompetitorSearch({ endpoint, onSelect }: CompetitorSearchProps) {
+  const { fetchWithAuth } = useAuth();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CompetitorSummary[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) {
+      setError('Zadej startovní číslo, jméno nebo oddíl');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchWithAuth<CompetitorSearchResponse>(
+        `${endpoint}?q=${encodeURIComponent(query.trim())}`,
+      );
+      setResults(response.competitors);
+    } catch (err) {
+      console.error(err);
+      setResults(null);
+      setError(err instanceof Error ? err.message : 'Hledání selhalo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (competitor: CompetitorSummary) => {
+    setResults(null);
+    onSelect(competitor);
+  };
+
+  return (
+    <section className="competitor-search">
+      <form className="form" onSubmit={handleSearch}>
+        <label>
+          Hledat soutěžícího
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Startovní číslo, jméno nebo oddíl"
+          />
+        </label>
+        <button type="submit" className="secondary" disabled={loading}>
+          {loading ? 'Hledám…' : 'Hledat'}
+        </button>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+      {results ? (
+        results.length === 0 ? (
+          <p>Nikdo nenalezen.</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Číslo</th>
+                <th>Jméno</th>
+                <th>Oddíl</th>
+                <th>Kategorie</th>
+                <th>Akce</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((competitor) => (
+                <tr key={competitor.id}>
+                  <td>{competitor.startNumber ?? '—'}</td>
+                  <td>{competitor.displayName}</td>
+                  <td>{competitor.club ?? '—'}</td>
+                  <td>{competitor.categoryCode}</td>
+                  <td>
+                    <button type="button" onClick={() => handleSelect(competitor)}>
+                      Vybrat
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      ) : null}
+    </section>
+  );
+}
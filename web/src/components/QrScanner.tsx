@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { BrowserQRCodeReader, type IScannerControls } from '@zxing/browser';
+import { extractQrToken } from '../utils/qr';
+
+interface QrScannerProps {
+  onScan: (token: string) => void;
+  disabled?: boolean;
+}
+
+function describeCameraError(error: unknown) {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError' || error.name === 'SecurityError') {
+      return 'Přístup ke kameře byl zamítnut. Zadej token ručně.';
+    }
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') {
+      return 'Zařízení nemá dostupnou kameru. Zadej token ručně.';
+    }
+  }
+  return 'Kameru se nepodařilo spustit. Zadej token ručně.';
+}
+
+export function QrScanner({ onScan, disabled }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onScanRef = useRef(onScan);
+  const [active, setActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const supported = typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active || !videoRef.current) {
+      return undefined;
+    }
+
+    let controls: IScannerControls | null = null;
+    let cancelled = false;
+    const reader = new BrowserQRCodeReader();
+
+    reader
+      .decodeFromConstraints(
+        { video: { facingMode: { ideal: 'environment' } }, audio: false },
+        videoRef.current,
+        (result, _error, scannerControls) => {
+          if (!result || cancelled) {
+            return;
+          }
+          const token = extractQrToken(result.getText());
+          if (!token) {
+            setError('QR kód neobsahuje token soutěžícího.');
+            return;
+          }
+          cancelled = true;
+          scannerControls.stop();
+          setActive(false);
+          onScanRef.current(token);
+        },
+      )
+      .then((started) => {
+        controls = started;
+        if (cancelled) {
+          started.stop();
+        }
+      })
+      .catch((err) => {
+        console.error(err);
+        setError(describeCameraError(err));
+        setActive(false);
+      });
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [active]);
+
+  if (!supported) {
+    return null;
+  }
+
+  return (
+    <div className="qr-scanner">
+      {active ? (
+        <>
+          <video ref={videoRef} className="qr-scanner__video" muted playsInline />
+          <button type="button" className="secondary" onClick={() => setActive(false)}>
+            Zavřít kameru
+          </button>
+        </>
+      ) : (
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => {
+            setError(null);
+            setActive(true);
+          }}
+          disabled={disabled}
+        >
+          Skenovat kamerou
+        </button>
+      )}
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatCentiseconds } from '../utils/time';
+
+const STORAGE_KEY = 'draci-smycka-stopwatch';
+const TICK_MS = 50;
+
+interface StopwatchState {
+  startedAt: number | null;
+  elapsedMs: number;
+}
+
+interface StopwatchProps {
+  onSubmit: (centiseconds: number) => Promise<boolean> | boolean;
+  disabled?: boolean;
+}
+
+function restoreState(): StopwatchState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return { startedAt: null, elapsedMs: 0 };
+    }
+    const parsed = JSON.parse(raw) as Partial<StopwatchState>;
+    return {
+      startedAt: typeof parsed.startedAt === 'number' ? parsed.startedAt : null,
+      elapsedMs: typeof parsed.elapsedMs === 'number' ? parsed.elapsedMs : 0,
+    };
+  } catch (error) {
+    console.warn('Failed to restore stopwatch state', error);
+    return { startedAt: null, elapsedMs: 0 };
+  }
+}
+
+function currentElapsed(state: StopwatchState, now: number) {
+  return state.elapsedMs + (state.startedAt != null ? Math.max(0, now - state.startedAt) : 0);
+}
+
+export function Stopwatch({ onSubmit, disabled }: StopwatchProps) {
+  const [state, setState] = useState<StopwatchState>(restoreState);
+  const [now, setNow] = useState(() => Date.now());
+  const running = state.startedAt != null;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }, [state]);
+
+  useEffect(() => {
+    if (!running) {
+      return undefined;
+    }
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  const start = () => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setState((prev) => (prev.startedAt != null ? prev : { ...prev, startedAt: timestamp }));
+  };
+
+  const stop = () => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    setState((prev) => ({ startedAt: null, elapsedMs: currentElapsed(prev, timestamp) }));
+  };
+
+  const reset = () => {
+    setState({ startedAt: null, elapsedMs: 0 });
+  };
+
+  const centiseconds = Math.floor(currentElapsed(state, now) / 10);
+
+  const submit = useCallback(async () => {
+    if (running || centiseconds <= 0) {
+      return;
+    }
+    const saved = await onSubmit(centiseconds);
+    if (saved) {
+      setState({ startedAt: null, elapsedMs: 0 });
+    }
+  }, [centiseconds, onSubmit, running]);
+
+  return (
+    <div className="stopwatch">
+      <span className="stopwatch__display">{formatCentiseconds(centiseconds)}</span>
+      <div className="actions">
+        {running ? (
+          <button type="button" onClick={stop}>
+            Stop
+          </button>
+        ) : (
+          <button type="button" onClick={start} disabled={disabled}>
+            {centiseconds > 0 ? 'Pokračovat' : 'Start'}
+          </button>
+        )}
+        <button type="button" className="secondary" onClick={reset} disabled={running || centiseconds === 0}>
+          Vynulovat
+        </button>
+        <button type="button" onClick={submit} disabled={disabled || running || centiseconds === 0}>
+          Uložit čas stopek
+        </button>
+      </div>
+    </div>
+  );
+}
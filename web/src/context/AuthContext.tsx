@@ -8,12 +8,14 @@ import {
   useState,
   type ReactNode,
 } from 'react';
-import { apiFetch } from '../api/client';
+import { ApiError, apiFetch } from '../api/client';
 import type {
   AssignmentsDto,
+  AuthAssignmentsResponse,
   AuthLoginResponse,
   CategoryDto,
   EventSummary,
+  FaultCodeDto,
   NodeDto,
   UserRole,
   UserSummary,
@@ -21,6 +23,8 @@ import type {
 
 const STORAGE_KEY = 'draci-smycka-auth';
 const EXPIRY_BUFFER_MS = 5_000;
+const ASSIGNMENTS_VERSION_HEADER = 'X-Assignments-Version';
+const ASSIGNMENTS_POLL_INTERVAL_MS = 60_000;
 
 interface AuthState {
   accessToken: string;
@@ -32,6 +36,7 @@ interface AuthState {
   assignments: AssignmentsDto;
   categories: CategoryDto[];
   nodes: NodeDto[];
+  faultCodes: FaultCodeDto[];
 }
 
 interface AuthContextValue {
@@ -59,6 +64,15 @@ function persistState(state: AuthState | null) {
   );
 }
 
+/** The server answers a revoked session or a deactivated user this way; no refresh can recover it. */
+function isSessionRevoked(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    error.status === 401 &&
+    (error.body as { error?: unknown } | undefined)?.error === 'Session revoked'
+  );
+}
+
 function mapLoginResponse(payload: AuthLoginResponse): AuthState {
   const now = Date.now();
   return {
@@ -71,6 +85,7 @@ function mapLoginResponse(payload: AuthLoginResponse): AuthState {
     assignments: payload.assignments,
     categories: payload.categories,
     nodes: payload.nodes,
+    faultCodes: payload.faultCodes ?? [],
   };
 }
 
@@ -85,7 +100,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (!parsed || typeof parsed !== 'object') {
         return null;
       }
-      return parsed;
+      return { ...parsed, faultCodes: parsed.faultCodes ?? [] };
     } catch (error) {
       console.warn('Failed to restore auth state', error);
       return null;
@@ -93,11 +108,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const refreshInFlight = useRef<Promise<AuthState> | null>(null);
+  const assignmentsInFlight = useRef<Promise<void> | null>(null);
+  const assignmentsVersion = useRef(state?.assignments.version);
+  // Latest state for refreshes started from callbacks created before the previous refresh landed.
+  const stateRef = useRef(state);
 
   useEffect(() => {
     persistState(state);
+    stateRef.current = state;
   }, [state]);
 
+  useEffect(() => {
+    assignmentsVersion.current = state?.assignments.version;
+  }, [state?.assignments.version]);
+
   const logout = useCallback(
     async (allDevices = false) => {
       if (state) {
@@ -117,38 +141,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   );
 
   const performRefresh = useCallback(async (): Promise<AuthState> => {
-    if (!state) {
+    if (refreshInFlight.current) {
+      return refreshInFlight.current;
+    }
+
+    const current = stateRef.current;
+    if (!current) {
       throw new Error('Not authenticated');
     }
 
-    if (Date.now() > state.refreshTokenExpiresAt) {
+    if (Date.now() > current.refreshTokenExpiresAt) {
       await logout();
       throw new Error('Session expired');
     }
 
-    if (refreshInFlight.current) {
-      return refreshInFlight.current;
-    }
-
     const promise = apiFetch<AuthLoginResponse>(
       '/auth/refresh',
       {
         method: 'POST',
-        body: JSON.stringify({ refreshToken: state.refreshToken }),
+        body: JSON.stringify({ refreshToken: current.refreshToken }),
       },
     )
       .then((response) => {
         const nextState = mapLoginResponse(response);
+        stateRef.current = nextState;
         setState(nextState);
         return nextState;
       })
+      .catch((error) => {
+        // A rejected refresh token cannot be retried; network failures keep the session for later.
+        if (error instanceof ApiError && error.status === 401) {
+          setState(null);
+        }
+        throw error;
+      })
       .finally(() => {
         refreshInFlight.current = null;
       });
 
     refreshInFlight.current = promise;
     return promise;
-  }, [state, logout]);
+  }, [logout]);
 
   const ensureAccessToken = useCallback(async () => {
     if (!state) {
@@ -176,12 +209,89 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     [],
   );
 
+  // Admins can move judges between nodes mid-event; pull the new assignments without a re-login.
+  const refreshAssignments = useCallback(async () => {
+    if (assignmentsInFlight.current) {
+      return assignmentsInFlight.current;
+    }
+
+    const promise = ensureAccessToken()
+      .then((token) => apiFetch<AuthAssignmentsResponse>('/auth/assignments', {}, token))
+      .then((response) => {
+        setState((current) => {
+          // Returning the same object keeps `fetchWithAuth` and everything built on it stable.
+          if (
+            !current ||
+            (current.assignments.version === response.assignments.version &&
+              JSON.stringify(current.categories) === JSON.stringify(response.categories) &&
+              JSON.stringify(current.nodes) === JSON.stringify(response.nodes))
+          ) {
+            return current;
+          }
+          return { ...current, assignments: response.assignments, categories: response.categories, nodes: response.nodes };
+        });
+        assignmentsVersion.current = response.assignments.version;
+      })
+      .finally(() => {
+        assignmentsInFlight.current = null;
+      });
+
+    assignmentsInFlight.current = promise;
+    return promise;
+  }, [ensureAccessToken]);
+
+  const refreshAssignmentsRef = useRef(refreshAssignments);
+
+  useEffect(() => {
+    refreshAssignmentsRef.current = refreshAssignments;
+  }, [refreshAssignments]);
+
+  const role = state?.user.role ?? null;
+
+  useEffect(() => {
+    if (!role || role === 'admin') {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      if (navigator.onLine) {
+        refreshAssignmentsRef.current().catch((error) => console.warn('Failed to refresh assignments', error));
+      }
+    }, ASSIGNMENTS_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [role]);
+
   const fetchWithAuth = useCallback(
     async <T,>(path: string, init: RequestInit = {}) => {
-      const token = await ensureAccessToken();
-      return apiFetch<T>(path, init, token);
+      const request = async (token: string) => {
+        try {
+          return await apiFetch<T>(path, init, token, (response) => {
+            const version = response.headers.get(ASSIGNMENTS_VERSION_HEADER);
+            if (version && version !== assignmentsVersion.current) {
+              refreshAssignments().catch((error) => console.warn('Failed to refresh assignments', error));
+            }
+          });
+        } catch (error) {
+          // The server rejects revoked sessions and deactivated users; drop back to the login screen.
+          if (isSessionRevoked(error)) {
+            setState(null);
+          }
+          throw error;
+        }
+      };
+
+      try {
+        return await request(await ensureAccessToken());
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 401 || isSessionRevoked(error)) {
+          throw error;
+        }
+      }
+
+      // The access token expired while the request was on its way; refresh it and try once more.
+      const refreshed = await performRefresh();
+      return request(refreshed.accessToken);
     },
-    [ensureAccessToken],
+    [ensureAccessToken, performRefresh, refreshAssignments],
   );
 
   const value = useMemo<AuthContextValue>(
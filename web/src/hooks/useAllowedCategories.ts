@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+/** Categories the signed-in user may work with; admins always get all of them. */
+export function useAllowedCategories() {
+  const { state } = useAuth();
+
+  return useMemo(() => {
+    if (!state) {
+      return [];
+    }
+    const allowed = state.assignments.allowedCategories;
+    return state.user.role === 'admin' || allowed.length === 0
+      ? state.categories
+      : state.categories.filter((category) => allowed.includes(category.code));
+  }, [state]);
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError } from '../api/client';
+import type { JudgeAttemptRequest, JudgeAttemptResponse } from '../api/types';
+import { useAuth } from '../context/AuthContext';
+import {
+  getQueuedAttempt,
+  listQueuedAttempts,
+  removeQueuedAttempt,
+  saveQueuedAttempt,
+  type QueuedAttempt,
+} from '../storage/attemptQueue';
+
+const RETRY_INTERVAL_MS = 15_000;
+
+export type QueueOutcome = 'synced' | 'queued' | 'failed';
+
+export type NewQueuedAttempt = Pick<
+  QueuedAttempt,
+  'competitorId' | 'competitorName' | 'nodeId' | 'attemptNumber' | 'result' | 'note'
+>;
+
+function isPermanentFailure(error: unknown) {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  if (error.status === 401 || error.status === 408 || error.status === 429) {
+    return false;
+  }
+  return error.status >= 400 && error.status < 500;
+}
+
+function toRequest(item: QueuedAttempt): JudgeAttemptRequest {
+  return {
+    attemptId: item.id,
+    competitorId: item.competitorId,
+    nodeId: item.nodeId,
+    attemptNumber: item.attemptNumber,
+    result: item.result,
+    note: item.note,
+  };
+}
+
+export function useAttemptQueue(onSynced?: () => void) {
+  const { state, fetchWithAuth } = useAuth();
+  const eventId = state?.event.id ?? null;
+  const [items, setItems] = useState<QueuedAttempt[]>([]);
+  const [flushing, setFlushing] = useState(false);
+  const flushChain = useRef<Promise<number>>(Promise.resolve(0));
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  const reload = useCallback(async () => {
+    if (!eventId) {
+      setItems([]);
+      return;
+    }
+    try {
+      setItems(await listQueuedAttempts(eventId));
+    } catch (error) {
+      console.warn('Failed to read attempt queue', error);
+    }
+  }, [eventId]);
+
+  const runFlush = useCallback(async () => {
+    if (!eventId) {
+      return 0;
+    }
+    setFlushing(true);
+    let sent = 0;
+    try {
+      const pending = await listQueuedAttempts(eventId);
+      for (const item of pending) {
+        if (item.failed) {
+          continue;
+        }
+        try {
+          await fetchWithAuth<JudgeAttemptResponse>('/judge/attempts', {
+            method: 'POST',
+            body: JSON.stringify(toRequest(item)),
+          });
+          await removeQueuedAttempt(item.id);
+          sent += 1;
+        } catch (error) {
+          const permanent = isPermanentFailure(error);
+          await saveQueuedAttempt({
+            ...item,
+            tries: item.tries + 1,
+            lastError: error instanceof Error ? error.message : 'Odeslání selhalo',
+            failed: permanent,
+          });
+          // Keep the queue ordered: attempt 2 must not overtake attempt 1.
+          if (!permanent) {
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to flush attempt queue', error);
+    } finally {
+      setFlushing(false);
+      await reload();
+    }
+    if (sent > 0) {
+      onSyncedRef.current?.();
+    }
+    return sent;
+  }, [eventId, fetchWithAuth, reload]);
+
+  const flush = useCallback(() => {
+    const next = flushChain.current.then(runFlush, runFlush);
+    flushChain.current = next;
+    return next;
+  }, [runFlush]);
+
+  const enqueue = useCallback(
+    async (attempt: NewQueuedAttempt): Promise<{ outcome: QueueOutcome; error: string | null }> => {
+      if (!eventId) {
+        throw new Error('Not authenticated');
+      }
+      const item: QueuedAttempt = {
+        ...attempt,
+        id: crypto.randomUUID(),
+        eventId,
+        createdAt: Date.now(),
+        tries: 0,
+        lastError: null,
+        failed: false,
+      };
+      await saveQueuedAttempt(item);
+      await flush();
+      const stored = await getQueuedAttempt(item.id);
+      if (!stored) {
+        return { outcome: 'synced', error: null };
+      }
+      return { outcome: stored.failed ? 'failed' : 'queued', error: stored.lastError };
+    },
+    [eventId, flush],
+  );
+
+  const discard = useCallback(
+    async (id: string) => {
+      await removeQueuedAttempt(id);
+      await reload();
+    },
+    [reload],
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      const item = await getQueuedAttempt(id);
+      if (item) {
+        await saveQueuedAttempt({ ...item, failed: false });
+      }
+      await flush();
+    },
+    [flush],
+  );
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const hasPending = items.some((item) => !item.failed);
+
+  useEffect(() => {
+    if (!hasPending) {
+      return undefined;
+    }
+    const handleOnline = () => {
+      flush();
+    };
+    const interval = window.setInterval(() => {
+      if (navigator.onLine) {
+        flush();
+      }
+    }, RETRY_INTERVAL_MS);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [flush, hasPending]);
+
+  return {
+    items,
+    pendingCount: items.filter((item) => !item.failed).length,
+    failedCount: items.filter((item) => item.failed).length,
+    flushing,
+    enqueue,
+    flush,
+    discard,
+    retry,
+  };
+}
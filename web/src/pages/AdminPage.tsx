@@ -1,6 +1,17 @@
 import { FormEvent, useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import type { AdminCreateCompetitorRequest, AdminEventContextResponse } from '../api/types';
+import FaultCodesSection from './admin/FaultCodesSection';
+import EventSettingsSection from './admin/EventSettingsSection';
+import FinalizationSection from './admin/FinalizationSection';
+import CompetitorsSection from './admin/CompetitorsSection';
+import ImportSection from './admin/ImportSection';
+import NodesSection from './admin/NodesSection';
+import CategoriesSection from './admin/CategoriesSection';
+import CategoryNodesSection from './admin/CategoryNodesSection';
+import UsersSection from './admin/UsersSection';
+import SessionsSection from './admin/SessionsSection';
+import AuditSection from './admin/AuditSection';
 
 export default function AdminPage() {
   const { state, fetchWithAuth } = useAuth();
@@ -21,10 +32,6 @@ export default function AdminPage() {
   });
   const [createMessage, setCreateMessage] = useState<string | null>(null);
 
-  const [tokenCompetitorId, setTokenCompetitorId] = useState('');
-  const [tokenResult, setTokenResult] = useState<string | null>(null);
-  const [tokenError, setTokenError] = useState<string | null>(null);
-
   const loadContext = useCallback(async () => {
     if (!eventId) {
       return;
@@ -87,31 +94,6 @@ export default function AdminPage() {
     }
   };
 
-  const handleTokenIssue = async (event: FormEvent) => {
-    event.preventDefault();
-    setTokenResult(null);
-    setTokenError(null);
-
-    if (!tokenCompetitorId.trim()) {
-      setTokenError('Zadej ID soutěžícího');
-      return;
-    }
-    try {
-      const response = await fetchWithAuth<{ token: string }>(
-        `/admin/competitors/${tokenCompetitorId.trim()}/token`,
-        {
-          method: 'POST',
-          body: JSON.stringify({ regenerate: true }),
-        },
-      );
-      setTokenResult(`Nový token: ${response.token}`);
-      await loadContext();
-    } catch (err) {
-      console.error(err);
-      setTokenError(err instanceof Error ? err.message : 'Generování tokenu selhalo');
-    }
-  };
-
   if (!eventId) {
     return <p>Žádný event není vybrán.</p>;
   }
@@ -132,33 +114,44 @@ export default function AdminPage() {
           <p>
             Kategorie: {context.categories.length} · Uzly: {context.nodes.length} · Soutěžících: {context.competitorCount}
           </p>
-          <div className="grid">
-            <section>
-              <h3>Kategorie</h3>
-              <ul>
-                {context.categories.map((category) => (
-                  <li key={category.id}>
-                    <strong>{category.code}</strong> – {category.name}
-                  </li>
-                ))}
-              </ul>
-            </section>
-            <section>
-              <h3>Uzly</h3>
-              <ul>
-                {context.nodes.map((node) => (
-                  <li key={node.id}>
-                    <strong>{node.name}</strong>
-                    {node.is_relay ? ' (štafeta)' : ''}
-                    {!node.counts_to_overall ? ' · nepočítá se do overall' : ''}
-                  </li>
-                ))}
-              </ul>
-            </section>
-          </div>
         </div>
       ) : null}
 
+      {context ? (
+        <CompetitorsSection
+          eventId={eventId}
+          categories={context.categories}
+          competitorCount={context.competitorCount}
+          onChanged={loadContext}
+        />
+      ) : null}
+
+      {context ? <ImportSection eventId={eventId} onChanged={loadContext} /> : null}
+
+      {context ? (
+        <CategoriesSection eventId={eventId} categories={context.categories} onChanged={loadContext} />
+      ) : null}
+
+      {context ? <NodesSection eventId={eventId} nodes={context.nodes} onChanged={loadContext} /> : null}
+
+      {context ? <CategoryNodesSection eventId={eventId} context={context} onChanged={loadContext} /> : null}
+
+      {context ? <UsersSection eventId={eventId} nodes={context.nodes} categories={context.categories} /> : null}
+
+      {context ? <SessionsSection eventId={eventId} nodes={context.nodes} /> : null}
+
+      {context ? <AuditSection eventId={eventId} nodes={context.nodes} /> : null}
+
+      {context ? (
+        <FaultCodesSection eventId={eventId} faultCodes={context.faultCodes} onChanged={loadContext} />
+      ) : null}
+
+      {context ? <EventSettingsSection context={context} onChanged={loadContext} /> : null}
+
+      {context ? (
+        <FinalizationSection eventId={eventId} categories={context.categories} onChanged={loadContext} />
+      ) : null}
+
       <div className="card">
         <h2>Nový soutěžící</h2>
         <form className="form" onSubmit={handleCreate}>
@@ -243,24 +236,6 @@ export default function AdminPage() {
           {createMessage ? <p className="success">{createMessage}</p> : null}
         </form>
       </div>
-
-      <div className="card">
-        <h2>Generovat nový token</h2>
-        <form className="form" onSubmit={handleTokenIssue}>
-          <label>
-            ID soutěžícího
-            <input
-              type="text"
-              value={tokenCompetitorId}
-              onChange={(event) => setTokenCompetitorId(event.target.value)}
-              required
-            />
-          </label>
-          <button type="submit">Generovat token</button>
-        </form>
-        {tokenError ? <p className="error">{tokenError}</p> : null}
-        {tokenResult ? <p className="success">{tokenResult}</p> : null}
-      </div>
     </div>
   );
 }
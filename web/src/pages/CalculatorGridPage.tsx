@@ -0,0 +1,354 @@
+import { type KeyboardEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useAllowedCategories } from '../hooks/useAllowedCategories';
+import type {
+  AttemptDto,
+  CalculatorBatchChange,
+  CalculatorBatchRequest,
+  CalculatorBatchResponse,
+  CalculatorSheetResponse,
+  FaultCodeDto,
+} from '../api/types';
+import { formatCentiseconds, parseTimeInput } from '../utils/time';
+
+type CellValue =
+  | { kind: 'empty' }
+  | { kind: 'time'; centiseconds: number }
+  | { kind: 'fault'; faultCode: string }
+  | { kind: 'invalid' };
+
+function cellKey(competitorId: string, nodeId: string, attemptNumber: number) {
+  return `${competitorId}:${nodeId}:${attemptNumber}`;
+}
+
+function formatAttempt(attempt: AttemptDto | undefined) {
+  if (!attempt) {
+    return '';
+  }
+  return attempt.result_kind === 'time' ? formatCentiseconds(attempt.centiseconds) : attempt.fault_code ?? '';
+}
+
+function parseCell(input: string, faultCodes: FaultCodeDto[]): CellValue {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { kind: 'empty' };
+  }
+  const centiseconds = parseTimeInput(trimmed);
+  if (centiseconds != null) {
+    return { kind: 'time', centiseconds };
+  }
+  const fault = faultCodes.find((entry) => entry.code.toLowerCase() === trimmed.toLowerCase());
+  if (fault) {
+    return { kind: 'fault', faultCode: fault.code };
+  }
+  return { kind: 'invalid' };
+}
+
+export default function CalculatorGridPage() {
+  const { state, fetchWithAuth } = useAuth();
+  const faultCodes = useMemo(() => state?.faultCodes ?? [], [state]);
+  const categories = useAllowedCategories();
+
+  const [categoryCode, setCategoryCode] = useState('');
+  const [sheet, setSheet] = useState<CalculatorSheetResponse | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const inputs = useRef(new Map<string, HTMLInputElement>());
+
+  useEffect(() => {
+    if (!categoryCode && categories.length > 0) {
+      setCategoryCode(categories[0].code);
+    }
+  }, [categories, categoryCode]);
+
+  const attemptsByCell = useMemo(() => {
+    const map = new Map<string, AttemptDto>();
+    for (const attempt of sheet?.attempts ?? []) {
+      map.set(cellKey(attempt.competitor_id, attempt.node_id, attempt.attempt_number), attempt);
+    }
+    return map;
+  }, [sheet]);
+
+  const loadSheet = useCallback(
+    async (code: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetchWithAuth<CalculatorSheetResponse>(
+          `/calculator/categories/${encodeURIComponent(code)}/sheet`,
+        );
+        setSheet(response);
+      } catch (err) {
+        console.error(err);
+        setSheet(null);
+        setError(err instanceof Error ? err.message : 'Nepodařilo se načíst papírky');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchWithAuth],
+  );
+
+  // Unsaved drafts belong to the category; auth-state changes recreate `loadSheet` and must not clear them.
+  useEffect(() => {
+    setDrafts({});
+    setCellErrors({});
+    setMessage(null);
+  }, [categoryCode]);
+
+  useEffect(() => {
+    if (!categoryCode) {
+      return;
+    }
+    loadSheet(categoryCode);
+  }, [categoryCode, loadSheet]);
+
+  const changedKeys = useMemo(
+    () => Object.keys(drafts).filter((key) => drafts[key] !== formatAttempt(attemptsByCell.get(key))),
+    [attemptsByCell, drafts],
+  );
+
+  const invalidCount = changedKeys.filter((key) => {
+    const value = parseCell(drafts[key], faultCodes);
+    return value.kind === 'invalid' || value.kind === 'empty';
+  }).length;
+
+  const handleSave = async () => {
+    if (!sheet || changedKeys.length === 0 || invalidCount > 0) {
+      return;
+    }
+
+    const changes: CalculatorBatchChange[] = [];
+    const keys: string[] = [];
+    for (const key of changedKeys) {
+      const [competitorId, nodeId, attemptNumber] = key.split(':');
+      const value = parseCell(drafts[key], faultCodes);
+      if (value.kind !== 'time' && value.kind !== 'fault') {
+        continue;
+      }
+      const existing = attemptsByCell.get(key);
+      changes.push({
+        competitorId,
+        nodeId,
+        attemptNumber: attemptNumber === '2' ? 2 : 1,
+        result: value,
+        attemptId: existing?.id,
+        expectedUpdatedAt: existing?.updated_at,
+      });
+      keys.push(key);
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const request: CalculatorBatchRequest = { changes };
+      const response = await fetchWithAuth<CalculatorBatchResponse>('/calculator/attempts/batch', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+
+      const failed: Record<string, string> = {};
+      const remaining: Record<string, string> = {};
+      for (const result of response.results) {
+        if (!result.ok) {
+          const key = keys[result.index];
+          failed[key] = result.error;
+          remaining[key] = drafts[key];
+        }
+      }
+      const savedCount = response.results.length - Object.keys(failed).length;
+
+      // Keep only the cells the server rejected so they can be fixed and saved again.
+      setDrafts(remaining);
+      setCellErrors(failed);
+      setMessage(`Uloženo ${savedCount} z ${response.results.length} buněk`);
+      await loadSheet(sheet.categoryCode);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení selhalo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const focusCell = (row: number, column: number) => {
+    const input = inputs.current.get(`${row}:${column}`);
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>, row: number, column: number, key: string) => {
+    const input = event.currentTarget;
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      handleSave();
+      return;
+    }
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        focusCell(row + 1, column);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        focusCell(row - 1, column);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        focusCell(event.shiftKey ? row - 1 : row + 1, column);
+        break;
+      case 'ArrowRight':
+        if (input.selectionStart === input.value.length && input.selectionEnd === input.value.length) {
+          event.preventDefault();
+          focusCell(row, column + 1);
+        }
+        break;
+      case 'ArrowLeft':
+        if (input.selectionStart === 0 && input.selectionEnd === 0) {
+          event.preventDefault();
+          focusCell(row, column - 1);
+        }
+        break;
+      case 'Escape':
+        setDrafts((current) => {
+          const next = { ...current };
+          delete next[key];
+          return next;
+        });
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <div className="page">
+      <div className="card">
+        <header className="card__header">
+          <div>
+            <h1>Hromadné zadání papírků</h1>
+            <p>
+              Čas zadávej jako mm:ss.cc, chybu jejím kódem. Šipky a Enter přesouvají kurzor, Esc vrátí buňku,
+              Ctrl+S uloží.
+            </p>
+          </div>
+          <Link to="/calculator">Zpět na výpočetku</Link>
+        </header>
+        <div className="inline-form">
+          <label>
+            Kategorie
+            <select value={categoryCode} onChange={(event) => setCategoryCode(event.target.value)}>
+              {categories.map((category) => (
+                <option key={category.code} value={category.code}>
+                  {category.code} – {category.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="actions">
+            <button type="button" onClick={handleSave} disabled={saving || changedKeys.length === 0 || invalidCount > 0}>
+              {saving ? 'Ukládám…' : `Uložit změny (${changedKeys.length})`}
+            </button>
+          </div>
+        </div>
+        {invalidCount > 0 ? <p className="error">Opravte {invalidCount} neplatných buněk.</p> : null}
+        {error ? <p className="error">{error}</p> : null}
+        {message ? <p className="success">{message}</p> : null}
+      </div>
+
+      {loading ? <p>Načítám…</p> : null}
+
+      {sheet ? (
+        <div className="card sheet">
+          <table>
+            <thead>
+              <tr>
+                <th rowSpan={2}>Číslo</th>
+                <th rowSpan={2}>Jméno</th>
+                {sheet.nodes.map((node) => (
+                  <th key={node.id} colSpan={2}>
+                    {node.name}
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                {sheet.nodes.map((node) => [
+                  <th key={`${node.id}-1`}>1</th>,
+                  <th key={`${node.id}-2`}>2</th>,
+                ])}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.competitors.map((competitor, row) => (
+                <tr key={competitor.id}>
+                  <td>{competitor.startNumber ?? '—'}</td>
+                  <td>{competitor.displayName}</td>
+                  {sheet.nodes.map((node, nodeIndex) =>
+                    ([1, 2] as const).map((attemptNumber) => {
+                      const key = cellKey(competitor.id, node.id, attemptNumber);
+                      const column = nodeIndex * 2 + attemptNumber - 1;
+                      const original = formatAttempt(attemptsByCell.get(key));
+                      const value = drafts[key] ?? original;
+                      const changed = value !== original;
+                      const parsed = parseCell(value, faultCodes);
+                      const invalid = changed && (parsed.kind === 'invalid' || parsed.kind === 'empty');
+                      const overLimit =
+                        parsed.kind === 'time' &&
+                        node.max_time_centiseconds != null &&
+                        parsed.centiseconds > node.max_time_centiseconds;
+                      const serverError = cellErrors[key];
+                      const className = [
+                        'sheet__cell',
+                        changed ? 'sheet__cell--changed' : '',
+                        invalid || serverError ? 'sheet__cell--invalid' : '',
+                        overLimit ? 'sheet__cell--warning' : '',
+                      ]
+                        .filter(Boolean)
+                        .join(' ');
+                      return (
+                        <td key={key}>
+                          <input
+                            ref={(element) => {
+                              if (element) {
+                                inputs.current.set(`${row}:${column}`, element);
+                              } else {
+                                inputs.current.delete(`${row}:${column}`);
+                              }
+                            }}
+                            className={className}
+                            value={value}
+                            title={
+                              serverError ??
+                              (invalid
+                                ? 'Neplatný čas nebo kód chyby'
+                                : overLimit
+                                  ? `Překročen limit ${formatCentiseconds(node.max_time_centiseconds)}`
+                                  : undefined)
+                            }
+                            onChange={(event) =>
+                              setDrafts((current) => ({ ...current, [key]: event.target.value }))
+                            }
+                            onFocus={(event) => event.target.select()}
+                            onKeyDown={(event) => handleKeyDown(event, row, column, key)}
+                          />
+                        </td>
+                      );
+                    }),
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
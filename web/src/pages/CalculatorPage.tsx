@@ -1,57 +1,132 @@
 import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { ApiError } from '../api/client';
 import type {
   AttemptDto,
+  CalculatorAttemptConflictResponse,
   CalculatorCompetitorResponse,
+  CalculatorCreateAttemptRequest,
+  CalculatorCreateAttemptResponse,
+  CalculatorEditAttemptRequest,
   CalculatorUpdateAttemptResponse,
+  CalculatorVoidAttemptRequest,
+  CalculatorVoidAttemptResponse,
+  CompetitorLookupResponse,
+  VoidAttemptMode,
 } from '../api/types';
 import { formatCentiseconds, parseTimeInput } from '../utils/time';
-
-interface LookupResult {
-  competitor: {
-    id: string;
-    displayName: string;
-  };
-}
+import { QrScanner } from '../components/QrScanner';
+import { CompetitorSearch } from '../components/CompetitorSearch';
+import { AttemptHistory } from '../components/AttemptHistory';
+import { extractQrToken } from '../utils/qr';
+import { formatFault } from '../utils/faults';
 
 export default function CalculatorPage() {
-  const { fetchWithAuth } = useAuth();
+  const { state, fetchWithAuth } = useAuth();
+  const [searchParams] = useSearchParams();
+  const requestedCompetitorId = searchParams.get('competitorId');
   const [identifier, setIdentifier] = useState('');
   const [lookupError, setLookupError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [data, setData] = useState<CalculatorCompetitorResponse | null>(null);
   const [editing, setEditing] = useState<AttemptDto | null>(null);
+  const [creating, setCreating] = useState<{
+    competitorId: string;
+    nodeId: string;
+    attemptNumber: 1 | 2;
+  } | null>(null);
   const [timeValue, setTimeValue] = useState('');
   const [isFault, setIsFault] = useState(false);
+  const [faultCode, setFaultCode] = useState('');
+  const [historyAttemptId, setHistoryAttemptId] = useState<string | null>(null);
+  const [voiding, setVoiding] = useState<AttemptDto | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [voidMode, setVoidMode] = useState<VoidAttemptMode>('promote');
+  const [conflict, setConflict] = useState<{
+    current: AttemptDto;
+    request: CalculatorEditAttemptRequest;
+  } | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
+  const faultCodes = useMemo(() => state?.faultCodes ?? [], [state]);
+
   const attemptsList = useMemo(() => {
     if (!data) {
       return [] as { nodeId: string; attempts: AttemptDto[] }[];
     }
-    return Object.entries(data.attemptsByNode).map(([nodeId, attempts]) => ({
-      nodeId,
-      attempts,
-    }));
+    // Show every node the category runs so missing paper attempts can be added.
+    const nodeIds = new Set([...data.categoryNodeIds, ...Object.keys(data.attemptsByNode)]);
+    return data.nodes
+      .filter((node) => nodeIds.has(node.id))
+      .map((node) => ({
+        nodeId: node.id,
+        attempts: data.attemptsByNode[node.id] ?? [],
+      }));
   }, [data]);
 
+  const historyAttempt = useMemo(
+    () =>
+      historyAttemptId && data
+        ? Object.values(data.attemptsByNode)
+            .flat()
+            .find((attempt) => attempt.id === historyAttemptId) ?? null
+        : null,
+    [data, historyAttemptId],
+  );
+
+  const voidingHasSecondAttempt = Boolean(
+    voiding &&
+      voiding.attempt_number === 1 &&
+      data?.attemptsByNode[voiding.node_id]?.some((attempt) => attempt.attempt_number === 2),
+  );
+
   const startEditing = (attempt: AttemptDto) => {
+    setConflict(null);
+    setCreating(null);
+    setVoiding(null);
     setEditing(attempt);
     if (attempt.result_kind === 'time' && attempt.centiseconds != null) {
       const formatted = formatCentiseconds(attempt.centiseconds);
       setTimeValue(formatted);
       setIsFault(false);
+      setFaultCode(faultCodes[0]?.code ?? '');
     } else {
       setTimeValue('');
       setIsFault(true);
+      setFaultCode(attempt.fault_code ?? faultCodes[0]?.code ?? '');
     }
     setSaveError(null);
     setSuccessMessage(null);
   };
 
+  const startCreating = (competitorId: string, nodeId: string, attemptNumber: 1 | 2) => {
+    setEditing(null);
+    setVoiding(null);
+    setCreating({ competitorId, nodeId, attemptNumber });
+    setTimeValue('');
+    setIsFault(false);
+    setFaultCode(faultCodes[0]?.code ?? '');
+    setSaveError(null);
+    setSuccessMessage(null);
+  };
+
+  const startVoiding = (attempt: AttemptDto) => {
+    setEditing(null);
+    setCreating(null);
+    setVoiding(attempt);
+    setVoidReason('');
+    setVoidMode('promote');
+    setSaveError(null);
+    setSuccessMessage(null);
+  };
+
   const resetEditing = () => {
+    setConflict(null);
     setEditing(null);
+    setCreating(null);
+    setVoiding(null);
     setTimeValue('');
     setIsFault(false);
     setSaveError(null);
@@ -78,46 +153,117 @@ export default function CalculatorPage() {
     [fetchWithAuth],
   );
 
-  const handleLookup = async (event: FormEvent) => {
+  // Links from the completeness dashboard open a competitor directly.
+  useEffect(() => {
+    if (requestedCompetitorId) {
+      fetchCompetitor(requestedCompetitorId);
+    }
+  }, [fetchCompetitor, requestedCompetitorId]);
+
+  const handleLookup = useCallback(
+    async (input: string) => {
+      // The server resolves ids, current and older QR tokens and start numbers.
+      try {
+        setLoading(true);
+        const lookup = await fetchWithAuth<CompetitorLookupResponse>(
+          `/calculator/competitors/lookup?token=${encodeURIComponent(input)}`,
+        );
+        await fetchCompetitor(lookup.competitor.id);
+      } catch (error) {
+        console.error(error);
+        setLookupError(error instanceof Error ? error.message : 'Soupeře se nepodařilo najít');
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchCompetitor, fetchWithAuth],
+  );
+
+  const onLookupSubmit = async (event: FormEvent) => {
     event.preventDefault();
     if (!identifier.trim()) {
-      setLookupError('Zadej token nebo ID soutěžícího');
+      setLookupError('Zadej token, startovní číslo nebo ID soutěžícího');
       return;
     }
+    await handleLookup(extractQrToken(identifier) ?? identifier.trim());
+  };
+
+  const handleScan = useCallback(
+    (scanned: string) => {
+      setIdentifier(scanned);
+      handleLookup(scanned);
+    },
+    [handleLookup],
+  );
 
-    const input = identifier.trim();
-    const isUuid = /^[0-9a-fA-F-]{36}$/.test(input);
+  const describeResult = (result: { kind: 'time' | 'fault'; centiseconds?: number | null; faultCode?: string | null }) =>
+    result.kind === 'time' ? formatCentiseconds(result.centiseconds) : formatFault(result.faultCode, faultCodes);
 
-    if (isUuid) {
-      await fetchCompetitor(input);
-      return;
+  // Returns false when someone else changed the attempt; the conflict prompt takes over.
+  const submitEdit = async (attemptId: string, request: CalculatorEditAttemptRequest) => {
+    try {
+      await fetchWithAuth<CalculatorUpdateAttemptResponse>(`/calculator/attempts/${attemptId}`, {
+        method: 'PUT',
+        body: JSON.stringify(request),
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const body = error.body as CalculatorAttemptConflictResponse | undefined;
+        if (body?.details?.current) {
+          setConflict({ current: body.details.current, request });
+          return false;
+        }
+      }
+      throw error;
     }
+  };
+
+  const finishSave = async (competitorId: string) => {
+    setSuccessMessage('Uloženo');
+    await fetchCompetitor(competitorId);
+    resetEditing();
+  };
 
-    // Treat input as QR token
+  const handleOverwrite = async () => {
+    if (!conflict || !data) {
+      return;
+    }
+    const request = { ...conflict.request, expectedUpdatedAt: conflict.current.updated_at ?? '' };
+    setConflict(null);
+    setSaveError(null);
     try {
-      setLoading(true);
-      const lookup = await fetchWithAuth<LookupResult>(
-        `/calculator/competitors/lookup?token=${encodeURIComponent(input)}`,
-      );
-      await fetchCompetitor(lookup.competitor.id);
+      if (await submitEdit(conflict.current.id, request)) {
+        await finishSave(data.competitor.id);
+      }
     } catch (error) {
       console.error(error);
-      setLookupError(error instanceof Error ? error.message : 'Soupeře se nepodařilo najít');
-      setData(null);
-    } finally {
-      setLoading(false);
+      setSaveError(error instanceof Error ? error.message : 'Uložení změny selhalo');
     }
   };
 
+  const handleTakeCurrent = async () => {
+    if (!conflict || !data) {
+      return;
+    }
+    startEditing(conflict.current);
+    await fetchCompetitor(data.competitor.id);
+  };
+
   const handleSave = async (event: FormEvent) => {
     event.preventDefault();
-    if (!editing) {
+    if (!data || (!editing && !creating)) {
       return;
     }
 
     let payload;
     if (isFault) {
-      payload = { result: { kind: 'fault' as const, faultCode: '333' } };
+      if (!faultCode) {
+        setSaveError('Vyber kód chyby');
+        return;
+      }
+      payload = { result: { kind: 'fault' as const, faultCode } };
     } else {
       const parsed = parseTimeInput(timeValue);
       if (parsed == null) {
@@ -130,40 +276,89 @@ export default function CalculatorPage() {
     setSaveError(null);
 
     try {
-      await fetchWithAuth<CalculatorUpdateAttemptResponse>(`/calculator/attempts/${editing.id}`, {
-        method: 'PUT',
-        body: JSON.stringify(payload),
+      if (editing) {
+        const saved = await submitEdit(editing.id, { ...payload, expectedUpdatedAt: editing.updated_at ?? '' });
+        if (!saved) {
+          return;
+        }
+      } else if (creating) {
+        const request: CalculatorCreateAttemptRequest = {
+          ...payload,
+          competitorId: creating.competitorId,
+          nodeId: creating.nodeId,
+          attemptNumber: creating.attemptNumber,
+        };
+        await fetchWithAuth<CalculatorCreateAttemptResponse>('/calculator/attempts', {
+          method: 'POST',
+          body: JSON.stringify(request),
+        });
+      }
+      await finishSave(data.competitor.id);
+    } catch (error) {
+      console.error(error);
+      setSaveError(error instanceof Error ? error.message : 'Uložení změny selhalo');
+    }
+  };
+
+  const handleVoid = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!voiding) {
+      return;
+    }
+    if (voidReason.trim().length < 3) {
+      setSaveError('Uveď důvod smazání');
+      return;
+    }
+
+    const request: CalculatorVoidAttemptRequest = { reason: voidReason.trim() };
+    if (voidingHasSecondAttempt) {
+      request.mode = voidMode;
+    }
+
+    setSaveError(null);
+
+    try {
+      await fetchWithAuth<CalculatorVoidAttemptResponse>(`/calculator/attempts/${voiding.id}`, {
+        method: 'DELETE',
+        body: JSON.stringify(request),
       });
-      setSuccessMessage('Uloženo');
-      await fetchCompetitor(editing.competitor_id);
+      setSuccessMessage('Pokus smazán');
+      await fetchCompetitor(voiding.competitor_id);
       resetEditing();
     } catch (error) {
       console.error(error);
-      setSaveError(error instanceof Error ? error.message : 'Uložení změny selhalo');
+      setSaveError(error instanceof Error ? error.message : 'Smazání pokusu selhalo');
     }
   };
 
   useEffect(() => {
-    if (!editing) {
+    const competitorId = editing?.competitor_id ?? creating?.competitorId ?? voiding?.competitor_id;
+    if (!competitorId) {
       return;
     }
-    if (data?.competitor.id !== editing.competitor_id) {
+    if (data?.competitor.id !== competitorId) {
       resetEditing();
     }
-  }, [data, editing]);
+  }, [data, editing, creating, voiding]);
 
   return (
     <div className="page">
       <div className="card">
-        <h1>Výpočetka</h1>
-        <form className="form" onSubmit={handleLookup}>
+        <header className="card__header">
+          <h1>Výpočetka</h1>
+          <div className="actions">
+            <Link to="/calculator/grid">Hromadné zadání papírků</Link>
+            <Link to="/calculator/completeness">Chybějící výsledky</Link>
+          </div>
+        </header>
+        <form className="form" onSubmit={onLookupSubmit}>
           <label>
-            Token nebo ID soutěžícího
+            Token, startovní číslo nebo ID soutěžícího
             <input
               type="text"
               value={identifier}
               onChange={(event) => setIdentifier(event.target.value)}
-              placeholder="QR token nebo UUID"
+              placeholder="QR token, startovní číslo nebo UUID"
               required
             />
           </label>
@@ -171,6 +366,11 @@ export default function CalculatorPage() {
             {loading ? 'Načítám…' : 'Vyhledat'}
           </button>
         </form>
+        <QrScanner onScan={handleScan} disabled={loading} />
+        <CompetitorSearch
+          endpoint="/calculator/competitors/search"
+          onSelect={(competitor) => fetchCompetitor(competitor.id)}
+        />
         {lookupError ? <p className="error">{lookupError}</p> : null}
       </div>
 
@@ -199,12 +399,12 @@ export default function CalculatorPage() {
               <tbody>
                 {attemptsList.length === 0 ? (
                   <tr>
-                    <td colSpan={4}>Žádné pokusy</td>
+                    <td colSpan={4}>Kategorie nemá žádné uzly</td>
                   </tr>
                 ) : null}
                 {attemptsList.map(({ nodeId, attempts }) => {
                   const node = data.nodes.find((entry) => entry.id === nodeId);
-                  return [1, 2].map((order) => {
+                  return ([1, 2] as const).map((order) => {
                     const attempt = attempts.find((item) => item.attempt_number === order) ?? null;
                     return (
                       <tr key={`${nodeId}-${order}`}>
@@ -214,16 +414,30 @@ export default function CalculatorPage() {
                           {attempt
                             ? attempt.result_kind === 'time'
                               ? formatCentiseconds(attempt.centiseconds)
-                              : attempt.fault_code ?? '333'
+                              : formatFault(attempt.fault_code, faultCodes)
                             : '—'}
                         </td>
                         <td>
                           {attempt ? (
-                            <button type="button" onClick={() => startEditing(attempt)}>
-                              Upravit
-                            </button>
+                            <div className="actions">
+                              <button type="button" onClick={() => startEditing(attempt)}>
+                                Upravit
+                              </button>
+                              <button
+                                type="button"
+                                className="secondary"
+                                onClick={() => setHistoryAttemptId(historyAttemptId === attempt.id ? null : attempt.id)}
+                              >
+                                Historie
+                              </button>
+                              <button type="button" className="secondary" onClick={() => startVoiding(attempt)}>
+                                Smazat
+                              </button>
+                            </div>
                           ) : (
-                            '—'
+                            <button type="button" className="secondary" onClick={() => startCreating(data.competitor.id, nodeId, order)}>
+                              Přidat pokus
+                            </button>
                           )}
                         </td>
                       </tr>
@@ -234,10 +448,14 @@ export default function CalculatorPage() {
             </table>
           </section>
 
-          {editing ? (
+          {editing || creating ? (
             <section className="form">
               <h3>
-                Úprava pokusu {editing.attempt_number} ({formatCentiseconds(editing.centiseconds)})
+                {editing
+                  ? `Úprava pokusu ${editing.attempt_number} (${formatCentiseconds(editing.centiseconds)})`
+                  : `Nový pokus ${creating?.attemptNumber} – ${
+                      data.nodes.find((node) => node.id === creating?.nodeId)?.name ?? creating?.nodeId
+                    }`}
               </h3>
               <form onSubmit={handleSave} className="inline-form">
                 <label className="checkbox">
@@ -246,9 +464,20 @@ export default function CalculatorPage() {
                     checked={isFault}
                     onChange={(event) => setIsFault(event.target.checked)}
                   />
-                  Zapsat 333
+                  Zapsat chybu
                 </label>
-                {!isFault ? (
+                {isFault ? (
+                  <label>
+                    Chyba
+                    <select value={faultCode} onChange={(event) => setFaultCode(event.target.value)} required>
+                      {faultCodes.map((entry) => (
+                        <option key={entry.code} value={entry.code} title={entry.description ?? undefined}>
+                          {entry.code} – {entry.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : (
                   <label>
                     Čas (mm:ss.cc)
                     <input
@@ -259,18 +488,94 @@ export default function CalculatorPage() {
                       required
                     />
                   </label>
-                ) : null}
+                )}
                 <div className="actions">
-                  <button type="submit">Uložit změnu</button>
+                  <button type="submit">{editing ? 'Uložit změnu' : 'Přidat pokus'}</button>
                   <button type="button" className="secondary" onClick={resetEditing}>
                     Zrušit
                   </button>
                 </div>
               </form>
+              {conflict ? (
+                <div className="conflict">
+                  <p className="error">Pokus mezitím upravil někdo jiný.</p>
+                  <p>
+                    Aktuální hodnota:{' '}
+                    <strong>
+                      {describeResult({
+                        kind: conflict.current.result_kind,
+                        centiseconds: conflict.current.centiseconds,
+                        faultCode: conflict.current.fault_code,
+                      })}
+                    </strong>
+                    {conflict.current.note ? ` (${conflict.current.note})` : ''}
+                    <br />
+                    Tvoje hodnota: <strong>{describeResult(conflict.request.result)}</strong>
+                  </p>
+                  <div className="actions">
+                    <button type="button" onClick={handleOverwrite}>
+                      Přepsat mou hodnotou
+                    </button>
+                    <button type="button" className="secondary" onClick={handleTakeCurrent}>
+                      Převzít aktuální hodnotu
+                    </button>
+                  </div>
+                </div>
+              ) : null}
               {saveError ? <p className="error">{saveError}</p> : null}
               {successMessage ? <p className="success">{successMessage}</p> : null}
             </section>
           ) : null}
+
+          {voiding ? (
+            <section className="form">
+              <h3>
+                Smazání pokusu {voiding.attempt_number} –{' '}
+                {data.nodes.find((node) => node.id === voiding.node_id)?.name ?? voiding.node_id} (
+                {voiding.result_kind === 'time'
+                  ? formatCentiseconds(voiding.centiseconds)
+                  : formatFault(voiding.fault_code, faultCodes)}
+                )
+              </h3>
+              <form onSubmit={handleVoid} className="form">
+                <label>
+                  Důvod
+                  <textarea
+                    value={voidReason}
+                    onChange={(event) => setVoidReason(event.target.value)}
+                    placeholder="Např. zapsáno k jinému soutěžícímu"
+                    required
+                  />
+                </label>
+                {voidingHasSecondAttempt ? (
+                  <label>
+                    Pokus 2 na tomto uzlu
+                    <select value={voidMode} onChange={(event) => setVoidMode(event.target.value as VoidAttemptMode)}>
+                      <option value="promote">Ponechat a přečíslovat na pokus 1</option>
+                      <option value="cascade">Smazat také</option>
+                    </select>
+                  </label>
+                ) : null}
+                <div className="actions">
+                  <button type="submit">Smazat pokus</button>
+                  <button type="button" className="secondary" onClick={resetEditing}>
+                    Zrušit
+                  </button>
+                </div>
+              </form>
+              {saveError ? <p className="error">{saveError}</p> : null}
+            </section>
+          ) : null}
+          {historyAttempt ? (
+            <AttemptHistory
+              key={`${historyAttempt.id}-${historyAttempt.updated_at ?? ''}`}
+              attemptId={historyAttempt.id}
+              updatedAt={historyAttempt.updated_at ?? ''}
+              faultCodes={faultCodes}
+              onReverted={() => fetchCompetitor(data.competitor.id)}
+            />
+          ) : null}
+          {!editing && !creating && !voiding && successMessage ? <p className="success">{successMessage}</p> : null}
         </div>
       ) : null}
     </div>
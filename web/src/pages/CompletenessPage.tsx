@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useAllowedCategories } from '../hooks/useAllowedCategories';
+import type { CalculatorCompletenessResponse, NodeCompletionStatus } from '../api/types';
+
+const STATUS_LABELS: Partial<Record<NodeCompletionStatus, string>> = {
+  missing: 'Chybí',
+  incomplete: 'Neúplné',
+};
+
+export default function CompletenessPage() {
+  const { fetchWithAuth } = useAuth();
+  const [categoryCode, setCategoryCode] = useState('');
+  const [status, setStatus] = useState<'' | 'missing' | 'incomplete'>('');
+  const [data, setData] = useState<CalculatorCompletenessResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = useAllowedCategories();
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (categoryCode) {
+      params.set('categoryCode', categoryCode);
+    }
+    if (status) {
+      params.set('status', status);
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const query = params.toString();
+      setData(
+        await fetchWithAuth<CalculatorCompletenessResponse>(`/calculator/completeness${query ? `?${query}` : ''}`),
+      );
+    } catch (err) {
+      console.error(err);
+      setData(null);
+      setError(err instanceof Error ? err.message : 'Přehled se nepodařilo načíst');
+    } finally {
+      setLoading(false);
+    }
+  }, [categoryCode, fetchWithAuth, status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="page">
+      <div className="card">
+        <header className="card__header">
+          <div>
+            <h1>Chybějící výsledky</h1>
+            <p>Soutěžící bez času nebo chyby na uzlech své kategorie.</p>
+          </div>
+          <Link to="/calculator">Zpět na výpočetku</Link>
+        </header>
+        <div className="inline-form">
+          <label>
+            Kategorie
+            <select value={categoryCode} onChange={(event) => setCategoryCode(event.target.value)}>
+              <option value="">Všechny</option>
+              {categories.map((category) => (
+                <option key={category.code} value={category.code}>
+                  {category.code} – {category.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Stav
+            <select
+              value={status}
+              onChange={(event) => setStatus(event.target.value as '' | 'missing' | 'incomplete')}
+            >
+              <option value="">Chybí i neúplné</option>
+              <option value="missing">Chybí</option>
+              <option value="incomplete">Neúplné</option>
+            </select>
+          </label>
+          <div className="actions">
+            <button type="button" className="secondary" onClick={load} disabled={loading}>
+              {loading ? 'Načítám…' : 'Obnovit'}
+            </button>
+          </div>
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+      </div>
+
+      {data?.categories.map((category) => (
+        <div className="card" key={category.categoryCode}>
+          <h2>Kategorie {category.categoryCode}</h2>
+          {category.nodes.map((node) => (
+            <section className="completeness" key={node.nodeId}>
+              <header className="completeness__header">
+                <h3>
+                  {node.nodeName} ({node.nodeCode})
+                </h3>
+                <span>
+                  {node.complete}/{node.total} · {node.percent} %
+                </span>
+              </header>
+              <progress className="completeness__progress" value={node.complete} max={node.total || 1} />
+              {node.gaps.length > 0 ? (
+                <ul className="completeness__gaps">
+                  {node.gaps.map((gap) => (
+                    <li key={gap.competitorId}>
+                      <Link to={`/calculator?competitorId=${gap.competitorId}`}>
+                        {gap.startNumber != null ? `#${gap.startNumber} ` : ''}
+                        {gap.displayName}
+                      </Link>{' '}
+                      – {STATUS_LABELS[gap.status] ?? gap.status}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </section>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
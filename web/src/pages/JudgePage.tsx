@@ -1,7 +1,19 @@
-import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
-import type { AttemptDto, JudgeLookupResponse, NodeDto } from '../api/types';
+import type {
+  AttemptDto,
+  CompetitorSummary,
+  JudgeAttemptRequest,
+  JudgeLookupResponse,
+  NodeDto,
+} from '../api/types';
 import { formatCentiseconds, parseTimeInput } from '../utils/time';
+import { useAttemptQueue } from '../hooks/useAttemptQueue';
+import { QrScanner } from '../components/QrScanner';
+import { CompetitorSearch } from '../components/CompetitorSearch';
+import { Stopwatch } from '../components/Stopwatch';
+import { extractQrToken } from '../utils/qr';
+import { formatFault } from '../utils/faults';
 
 interface LookupState {
   loading: boolean;
@@ -22,6 +34,16 @@ export default function JudgePage() {
   const [payload, setPayload] = useState<JudgeLookupResponse | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [timeInput, setTimeInput] = useState('');
+  const [faultCode, setFaultCode] = useState('');
+  const [assignmentsNotice, setAssignmentsNotice] = useState<string | null>(null);
+
+  const faultCodes = useMemo(() => state?.faultCodes ?? [], [state]);
+
+  useEffect(() => {
+    if (!faultCodes.some((entry) => entry.code === faultCode)) {
+      setFaultCode(faultCodes[0]?.code ?? '');
+    }
+  }, [faultCode, faultCodes]);
 
   const assignedNodes: NodeDto[] = useMemo(() => {
     if (!state) {
@@ -32,12 +54,32 @@ export default function JudgePage() {
   }, [state]);
 
   useEffect(() => {
-    if (!selectedNodeId && assignedNodes.length > 0) {
-      setSelectedNodeId(assignedNodes[0]?.id ?? null);
+    if (selectedNodeId && assignedNodes.some((node) => node.id === selectedNodeId)) {
+      return;
     }
+    setSelectedNodeId(assignedNodes[0]?.id ?? null);
   }, [assignedNodes, selectedNodeId]);
 
+  const categoryNodeIds = useMemo(() => (payload ? new Set(payload.categoryNodeIds) : null), [payload]);
+
+  const runnableNodes = useMemo(
+    () => assignedNodes.filter((node) => !categoryNodeIds || categoryNodeIds.has(node.id)),
+    [assignedNodes, categoryNodeIds],
+  );
+
+  useEffect(() => {
+    if (!categoryNodeIds || !selectedNodeId || categoryNodeIds.has(selectedNodeId)) {
+      return;
+    }
+    if (runnableNodes.length > 0) {
+      setSelectedNodeId(runnableNodes[0]?.id ?? null);
+    }
+  }, [categoryNodeIds, runnableNodes, selectedNodeId]);
+
   const selectedNode = assignedNodes.find((node) => node.id === selectedNodeId) ?? null;
+  const selectedNodeRuns = selectedNode ? !categoryNodeIds || categoryNodeIds.has(selectedNode.id) : false;
+  const timeLimit = selectedNode?.max_time_centiseconds ?? null;
+  const timeLimitPolicy = state?.event.timeLimitPolicy ?? 'reject';
 
   const nodeAttempts: AttemptDto[] = useMemo(() => {
     if (!payload || !selectedNodeId) {
@@ -49,31 +91,23 @@ export default function JudgePage() {
   const attempt1 = nodeAttempts.find((attempt) => attempt.attempt_number === 1) ?? null;
   const attempt2 = nodeAttempts.find((attempt) => attempt.attempt_number === 2) ?? null;
 
-  const nextAttemptNumber = useMemo(() => {
-    if (!attempt1) {
-      return 1;
-    }
-    if (!attempt2) {
-      return 2;
-    }
-    return null;
-  }, [attempt1, attempt2]);
-
   const resetStates = () => {
     setSaveState({ saving: false, error: null, success: null });
   };
 
   const handleLookup = useCallback(
-    async (targetToken: string) => {
-      if (!targetToken || !state) {
+    async (target: { token: string } | { competitorId: string }) => {
+      const query =
+        'token' in target
+          ? `token=${encodeURIComponent(target.token)}`
+          : `competitorId=${encodeURIComponent(target.competitorId)}`;
+      if (('token' in target && !target.token) || !state) {
         return;
       }
       resetStates();
       setLookupState({ loading: true, error: null });
       try {
-        const response = await fetchWithAuth<JudgeLookupResponse>(
-          `/judge/competitors/lookup?token=${encodeURIComponent(targetToken)}`,
-        );
+        const response = await fetchWithAuth<JudgeLookupResponse>(`/judge/competitors/lookup?${query}`);
         setPayload(response);
         setLookupState({ loading: false, error: null });
       } catch (error) {
@@ -87,45 +121,114 @@ export default function JudgePage() {
 
   const refresh = useCallback(async () => {
     if (payload) {
-      await handleLookup(token);
+      await handleLookup({ competitorId: payload.competitor.id });
+    }
+  }, [handleLookup, payload]);
+
+  const queue = useAttemptQueue(refresh);
+
+  // AuthContext pulls new assignments when the admin moves the judge; reload attempts for the new nodes.
+  const assignmentsVersion = state?.assignments.version;
+  const seenAssignmentsVersion = useRef(assignmentsVersion);
+
+  useEffect(() => {
+    const previous = seenAssignmentsVersion.current;
+    seenAssignmentsVersion.current = assignmentsVersion;
+    if (!previous || previous === assignmentsVersion) {
+      return;
+    }
+    setAssignmentsNotice(
+      assignedNodes.length > 0
+        ? `Přiřazené uzly se změnily: ${assignedNodes.map((node) => node.name).join(', ')}`
+        : 'Nemáš přiřazený žádný uzel, obrať se na administrátora',
+    );
+    refresh();
+  }, [assignedNodes, assignmentsVersion, refresh]);
+
+  const queuedForNode = useMemo(() => {
+    if (!payload || !selectedNodeId) {
+      return [];
+    }
+    return queue.items.filter(
+      (item) => !item.failed && item.competitorId === payload.competitor.id && item.nodeId === selectedNodeId,
+    );
+  }, [payload, queue.items, selectedNodeId]);
+
+  const queued1 = queuedForNode.find((item) => item.attemptNumber === 1) ?? null;
+  const queued2 = queuedForNode.find((item) => item.attemptNumber === 2) ?? null;
+
+  const nextAttemptNumber = useMemo(() => {
+    if (!attempt1 && !queued1) {
+      return 1;
+    }
+    if (!attempt2 && !queued2) {
+      return 2;
     }
-  }, [handleLookup, payload, token]);
+    return null;
+  }, [attempt1, attempt2, queued1, queued2]);
 
   const onLookupSubmit = async (event: FormEvent) => {
     event.preventDefault();
     if (token.trim() === '') {
-      setLookupState({ loading: false, error: 'Zadej token' });
+      setLookupState({ loading: false, error: 'Zadej token nebo startovní číslo' });
       return;
     }
-    await handleLookup(token.trim());
+    await handleLookup({ token: extractQrToken(token) ?? token.trim() });
   };
 
+  const handleScan = useCallback(
+    (scanned: string) => {
+      setToken(scanned);
+      handleLookup({ token: scanned });
+    },
+    [handleLookup],
+  );
+
+  const handleSearchSelect = useCallback(
+    (competitor: CompetitorSummary) => {
+      setToken('');
+      handleLookup({ competitorId: competitor.id });
+    },
+    [handleLookup],
+  );
+
   const submitAttempt = useCallback(
-    async (
-      submission:
-        | { kind: 'time'; centiseconds: number }
-        | { kind: 'fault'; faultCode: string },
-    ) => {
+    async (submission: JudgeAttemptRequest['result']) => {
       if (!payload || !selectedNodeId || !nextAttemptNumber) {
-        return;
+        return false;
+      }
+      if (
+        submission.kind === 'time' &&
+        timeLimit != null &&
+        submission.centiseconds > timeLimit &&
+        timeLimitPolicy === 'reject'
+      ) {
+        setSaveState({
+          saving: false,
+          error: `Čas překračuje limit uzlu ${formatCentiseconds(timeLimit)}`,
+          success: null,
+        });
+        return false;
       }
       setSaveState({ saving: true, error: null, success: null });
       try {
-        const body = {
+        const { outcome, error } = await queue.enqueue({
           competitorId: payload.competitor.id,
+          competitorName: payload.competitor.displayName,
           nodeId: selectedNodeId,
           attemptNumber: nextAttemptNumber,
           result: submission,
-        };
-
-        await fetchWithAuth('/judge/attempts', {
-          method: 'POST',
-          body: JSON.stringify(body),
         });
 
-        setSaveState({ saving: false, error: null, success: 'Uloženo' });
         setTimeInput('');
-        await refresh();
+        if (outcome === 'synced') {
+          setSaveState({ saving: false, error: null, success: 'Uloženo' });
+        } else if (outcome === 'queued') {
+          setSaveState({ saving: false, error: null, success: 'Uloženo offline, odešle se po připojení' });
+        } else {
+          setSaveState({ saving: false, error: error ?? 'Uložení selhalo', success: null });
+        }
+        return outcome !== 'failed';
       } catch (error) {
         console.error(error);
         setSaveState({
@@ -133,9 +236,10 @@ export default function JudgePage() {
           error: error instanceof Error ? error.message : 'Uložení selhalo',
           success: null,
         });
+        return false;
       }
     },
-    [fetchWithAuth, nextAttemptNumber, payload, refresh, selectedNodeId],
+    [nextAttemptNumber, payload, queue, selectedNodeId, timeLimit, timeLimitPolicy],
   );
 
   const handleTimeSubmit = (event: FormEvent) => {
@@ -149,15 +253,24 @@ export default function JudgePage() {
       setSaveState({ saving: false, error: 'Neplatný formát času (mm:ss.cc)', success: null });
       return;
     }
-    submitAttempt({ kind: 'time', centiseconds: parsed });
+    submitAttempt({ kind: 'time', centiseconds: parsed, source: 'manual' });
   };
 
+  const handleStopwatchSubmit = useCallback(
+    (centiseconds: number) => submitAttempt({ kind: 'time', centiseconds, source: 'stopwatch' }),
+    [submitAttempt],
+  );
+
   const handleFault = async () => {
     if (!nextAttemptNumber) {
       setSaveState({ saving: false, error: 'Oba pokusy již existují', success: null });
       return;
     }
-    await submitAttempt({ kind: 'fault', faultCode: '333' });
+    if (!faultCode) {
+      setSaveState({ saving: false, error: 'Vyber kód chyby', success: null });
+      return;
+    }
+    await submitAttempt({ kind: 'fault', faultCode });
   };
 
   return (
@@ -166,12 +279,12 @@ export default function JudgePage() {
         <h1>Rozhodčí</h1>
         <form className="form" onSubmit={onLookupSubmit}>
           <label>
-            Token soutěžícího
+            Token nebo startovní číslo
             <input
               type="text"
               value={token}
               onChange={(event) => setToken(event.target.value)}
-              placeholder="Zadej nebo naskenuj QR"
+              placeholder="Zadej nebo naskenuj QR, případně startovní číslo"
               required
             />
           </label>
@@ -179,9 +292,70 @@ export default function JudgePage() {
             {lookupState.loading ? 'Načítám…' : 'Načíst soutěžícího'}
           </button>
         </form>
+        <QrScanner onScan={handleScan} disabled={lookupState.loading} />
+        <CompetitorSearch endpoint="/judge/competitors/search" onSelect={handleSearchSelect} />
         {lookupState.error ? <p className="error">{lookupState.error}</p> : null}
+        {assignmentsNotice ? <p className="success">{assignmentsNotice}</p> : null}
       </div>
 
+      {queue.items.length > 0 ? (
+        <div className="card">
+          <header className="card__header">
+            <div>
+              <h2>Fronta k odeslání</h2>
+              <p>
+                Čeká: {queue.pendingCount}
+                {queue.failedCount > 0 ? ` · odmítnuto: ${queue.failedCount}` : ''}
+              </p>
+            </div>
+            <button type="button" onClick={() => queue.flush()} disabled={queue.flushing}>
+              {queue.flushing ? 'Odesílám…' : 'Odeslat nyní'}
+            </button>
+          </header>
+          <table>
+            <thead>
+              <tr>
+                <th>Soutěžící</th>
+                <th>Uzel</th>
+                <th>Pokus</th>
+                <th>Výsledek</th>
+                <th>Stav</th>
+                <th>Akce</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue.items.map((item) => (
+                <tr key={item.id}>
+                  <td>{item.competitorName}</td>
+                  <td>{state?.nodes.find((node) => node.id === item.nodeId)?.name ?? item.nodeId}</td>
+                  <td>{item.attemptNumber}</td>
+                  <td>
+                    {item.result.kind === 'time'
+                      ? formatCentiseconds(item.result.centiseconds)
+                      : formatFault(item.result.faultCode, faultCodes)}
+                  </td>
+                  <td>{item.failed ? `Odmítnuto: ${item.lastError ?? ''}` : item.lastError ? 'Offline, zkusím znovu' : 'Čeká'}</td>
+                  <td>
+                    {item.failed ? (
+                      <div className="actions">
+                        <button type="button" className="secondary" onClick={() => queue.retry(item.id)}>
+                          Zkusit znovu
+                        </button>
+                        <button type="button" className="secondary" onClick={() => queue.discard(item.id)}>
+                          Zahodit
+                        </button>
+                      </div>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
       {payload && selectedNode ? (
         <div className="card">
           <header className="card__header">
@@ -199,11 +373,15 @@ export default function JudgePage() {
                   value={selectedNodeId ?? ''}
                   onChange={(event) => setSelectedNodeId(event.target.value)}
                 >
-                  {assignedNodes.map((node) => (
-                    <option key={node.id} value={node.id}>
-                      {node.name}
-                    </option>
-                  ))}
+                  {assignedNodes.map((node) => {
+                    const runs = !categoryNodeIds || categoryNodeIds.has(node.id);
+                    return (
+                      <option key={node.id} value={node.id} disabled={!runs}>
+                        {node.name}
+                        {runs ? '' : ' (v kategorii neběží)'}
+                      </option>
+                    );
+                  })}
                 </select>
               </label>
             </div>
@@ -221,17 +399,26 @@ export default function JudgePage() {
               <tbody>
                 {[1, 2].map((number) => {
                   const attempt = number === 1 ? attempt1 : attempt2;
+                  const queued = number === 1 ? queued1 : queued2;
                   return (
                     <tr key={number}>
                       <td>{number}</td>
                       <td>
                         {attempt
                           ? attempt.result_kind === 'time'
-                            ? formatCentiseconds(attempt.centiseconds)
-                            : attempt.fault_code ?? '333'
-                          : '—'}
+                            ? `${formatCentiseconds(attempt.centiseconds)}${
+                                attempt.time_source === 'stopwatch' ? ' (stopky)' : ''
+                              }`
+                            : formatFault(attempt.fault_code, faultCodes)
+                          : queued
+                            ? `${
+                                queued.result.kind === 'time'
+                                  ? formatCentiseconds(queued.result.centiseconds)
+                                  : formatFault(queued.result.faultCode, faultCodes)
+                              } (čeká na odeslání)`
+                            : '—'}
                       </td>
-                      <td>{attempt?.recorded_role ?? '—'}</td>
+                      <td>{attempt?.recorded_role ?? (queued ? 'offline' : '—')}</td>
                     </tr>
                   );
                 })}
@@ -241,8 +428,21 @@ export default function JudgePage() {
 
           <section className="form">
             <h3>Nový pokus</h3>
-            {nextAttemptNumber ? (
+            {timeLimit != null ? (
+              <p>
+                Limit uzlu: {formatCentiseconds(timeLimit)}
+                {timeLimitPolicy === 'fault'
+                  ? ` · delší čas se zapíše jako chyba ${state?.event.timeLimitFaultCode ?? ''}`
+                  : ' · delší čas nelze uložit'}
+              </p>
+            ) : null}
+            {!selectedNodeRuns ? (
+              <p className="error">
+                Kategorie {payload.competitor.categoryCode} tento uzel neběží, pokus nelze zapsat.
+              </p>
+            ) : nextAttemptNumber ? (
               <>
+                <Stopwatch onSubmit={handleStopwatchSubmit} disabled={saveState.saving} />
                 <form onSubmit={handleTimeSubmit} className="inline-form">
                   <label>
                     Čas (mm:ss.cc)
@@ -257,9 +457,26 @@ export default function JudgePage() {
                     Uložit čas
                   </button>
                 </form>
-                <button type="button" className="secondary" onClick={handleFault} disabled={saveState.saving}>
-                  Zapsat 333
-                </button>
+                <div className="inline-form">
+                  <label>
+                    Chyba
+                    <select value={faultCode} onChange={(event) => setFaultCode(event.target.value)}>
+                      {faultCodes.map((entry) => (
+                        <option key={entry.code} value={entry.code} title={entry.description ?? undefined}>
+                          {entry.code} – {entry.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={handleFault}
+                    disabled={saveState.saving || !faultCode}
+                  >
+                    Zapsat chybu
+                  </button>
+                </div>
               </>
             ) : (
               <p>Oba pokusy jsou již zaznamenané.</p>
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { apiFetch } from '../api/client';
 import type { LeaderboardEntry, LeaderboardResponse, RelayLeaderboardEntry } from '../api/types';
 import { formatCentiseconds } from '../utils/time';
+import { formatFault } from '../utils/faults';
 import { useAuth } from '../context/AuthContext';
 
 function groupByCategory(entries: LeaderboardEntry[]) {
@@ -26,6 +27,16 @@ function groupRelay(entries: RelayLeaderboardEntry[]) {
   return map;
 }
 
+function describeFaults(entry: LeaderboardEntry, data: LeaderboardResponse) {
+  return entry.nodes
+    .filter((node) => node.status === 'fault')
+    .map((node) => {
+      const nodeCode = data.nodes.find((item) => item.id === node.node_id)?.code ?? node.node_id;
+      return `${nodeCode}: ${formatFault(node.fault_code, data.faultCodes)}`;
+    })
+    .join(', ');
+}
+
 export default function LeaderboardPage() {
   const { state } = useAuth();
   const [data, setData] = useState<LeaderboardResponse | null>(null);
@@ -60,6 +71,10 @@ export default function LeaderboardPage() {
 
   const categories = useMemo(() => groupByCategory(data?.categoryLeaderboards ?? []), [data]);
   const relay = useMemo(() => groupRelay(data?.relayLeaderboards ?? []), [data]);
+  const officialByCategory = useMemo(
+    () => new Map((data?.categories ?? []).map((category) => [category.code, category.official])),
+    [data],
+  );
 
   return (
     <div className="page">
@@ -72,7 +87,14 @@ export default function LeaderboardPage() {
 
       {Array.from(categories.entries()).map(([category, entries]) => (
         <div key={category} className="card">
-          <h2>Kategorie {category}</h2>
+          <header className="card__header">
+            <h2>Kategorie {category}</h2>
+            {officialByCategory.get(category) ? (
+              <span className="status-badge status-badge--official">Oficiální výsledky</span>
+            ) : (
+              <span className="status-badge">Předběžné výsledky</span>
+            )}
+          </header>
           <table>
             <thead>
               <tr>
@@ -80,6 +102,7 @@ export default function LeaderboardPage() {
                 <th>Soutěžící</th>
                 <th>Součet pořadí</th>
                 <th>Tie-break</th>
+                <th>Chyby</th>
               </tr>
             </thead>
             <tbody>
@@ -89,6 +112,7 @@ export default function LeaderboardPage() {
                   <td>{entry.competitor?.displayName ?? entry.competitor_id}</td>
                   <td>{entry.placement_sum}</td>
                   <td>{formatCentiseconds(entry.tie_break_centiseconds_sum)}</td>
+                  <td>{data ? describeFaults(entry, data) || '—' : '—'}</td>
                 </tr>
               ))}
             </tbody>
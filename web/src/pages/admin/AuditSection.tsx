@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { API_BASE_URL, ApiError } from '../../api/client';
+import { CompetitorSearch } from '../../components/CompetitorSearch';
+import type {
+  AdminAuditEntry,
+  AdminAuditResponse,
+  AdminUserDto,
+  AdminUsersResponse,
+  AuditAction,
+  CompetitorSummary,
+  NodeDto,
+  UserRole,
+} from '../../api/types';
+
+interface AuditSectionProps {
+  eventId: string;
+  nodes: NodeDto[];
+}
+
+interface AuditFilters {
+  action: AuditAction | '';
+  userId: string;
+  role: UserRole | '';
+  nodeId: string;
+  competitor: CompetitorSummary | null;
+  from: string;
+  to: string;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  attempt_created: 'Zápis pokusu',
+  attempt_updated: 'Úprava pokusu',
+  attempt_deleted: 'Smazání pokusu',
+  attempt_reverted: 'Vrácení pokusu',
+  category_finalized: 'Uzavření kategorie',
+  category_reopened: 'Znovuotevření kategorie',
+  token_generated: 'Vygenerování tokenu',
+  token_revoked: 'Zrušení tokenu',
+  competitor_created: 'Nový soutěžící',
+  competitor_updated: 'Úprava soutěžícího',
+  user_created: 'Nový uživatel',
+  user_updated: 'Úprava uživatele',
+  user_password_reset: 'Reset hesla',
+  role_assigned: 'Přiřazení role',
+  role_unassigned: 'Odebrání role',
+  session_revoked: 'Odhlášení zařízení',
+  node_created: 'Nový uzel',
+  node_updated: 'Úprava uzlu',
+  node_deleted: 'Smazání uzlu',
+  nodes_reordered: 'Změna pořadí uzlů',
+  category_created: 'Nová kategorie',
+  category_updated: 'Úprava kategorie',
+  category_deleted: 'Smazání kategorie',
+  category_nodes_updated: 'Uzly kategorie',
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'admin',
+  judge: 'rozhodčí',
+  calculator: 'výpočetka',
+};
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditFilters = {
+  action: '',
+  userId: '',
+  role: '',
+  nodeId: '',
+  competitor: null,
+  from: '',
+  to: '',
+};
+
+function buildQuery(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  if (filters.action) {
+    params.set('action', filters.action);
+  }
+  if (filters.userId) {
+    params.set('userId', filters.userId);
+  }
+  if (filters.role) {
+    params.set('role', filters.role);
+  }
+  if (filters.nodeId) {
+    params.set('nodeId', filters.nodeId);
+  }
+  if (filters.competitor) {
+    params.set('competitorId', filters.competitor.id);
+  }
+  // datetime-local values are local time without an offset.
+  if (filters.from) {
+    params.set('from', new Date(filters.from).toISOString());
+  }
+  if (filters.to) {
+    params.set('to', new Date(filters.to).toISOString());
+  }
+  return params;
+}
+
+function toRecord(value: unknown): Record<string, unknown> | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return { hodnota: value };
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function AuditValues({ entry }: { entry: AdminAuditEntry }) {
+  const before = toRecord(entry.previousValue);
+  const after = toRecord(entry.newValue);
+  const keys = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+
+  if (keys.length === 0) {
+    return <>—</>;
+  }
+
+  return (
+    <table className="audit-diff">
+      <thead>
+        <tr>
+          <th />
+          <th>Původně</th>
+          <th>Nově</th>
+        </tr>
+      </thead>
+      <tbody>
+        {keys.map((key) => {
+          const previous = before ? formatValue(before[key]) : '';
+          const next = after ? formatValue(after[key]) : '';
+          const changed = Boolean(before && after) && previous !== next;
+          return (
+            <tr key={key} className={changed ? 'audit-diff__row--changed' : undefined}>
+              <th scope="row">{key}</th>
+              <td>{previous}</td>
+              <td>{next}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AuditSection({ eventId, nodes }: AuditSectionProps) {
+  const { state, fetchWithAuth, ensureAccessToken } = useAuth();
+  const [filters, setFilters] = useState(emptyFilters);
+  const [users, setUsers] = useState<AdminUserDto[]>([]);
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWithAuth<AdminUsersResponse>(`/admin/events/${eventId}/users?scope=all`)
+      .then((response) => setUsers(response.users))
+      .catch((err) => console.error(err));
+  }, [eventId, fetchWithAuth]);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = buildQuery(filters);
+        params.set('limit', String(PAGE_SIZE));
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+        const response = await fetchWithAuth<AdminAuditResponse>(`/admin/events/${eventId}/audit?${params}`);
+        setEntries((current) => (cursor ? [...current, ...response.entries] : response.entries));
+        setNextCursor(response.nextCursor);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Načtení auditního záznamu selhalo');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [eventId, fetchWithAuth, filters],
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const params = buildQuery(filters);
+      params.set('format', 'csv');
+      const token = await ensureAccessToken();
+      const response = await fetch(`${API_BASE_URL}/admin/events/${eventId}/audit?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new ApiError(response.status, text || response.statusText);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-${state?.event.slug ?? eventId}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Export selhal');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="card">
+      <header className="card__header">
+        <h2>Auditní záznam</h2>
+        <div className="actions">
+          <button type="button" className="secondary" onClick={() => load()} disabled={loading}>
+            {loading ? 'Načítám…' : 'Obnovit'}
+          </button>
+          <button type="button" className="secondary" onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Exportuji…' : 'Export CSV'}
+          </button>
+        </div>
+      </header>
+
+      <div className="form">
+        <label>
+          Akce
+          <select
+            value={filters.action}
+            onChange={(event) => updateFilter('action', event.target.value as AuditAction | '')}
+          >
+            <option value="">Všechny</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Uživatel
+          <select value={filters.userId} onChange={(event) => updateFilter('userId', event.target.value)}>
+            <option value="">Všichni</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.display_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Role
+          <select value={filters.role} onChange={(event) => updateFilter('role', event.target.value as UserRole | '')}>
+            <option value="">Všechny</option>
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Uzel
+          <select value={filters.nodeId} onChange={(event) => updateFilter('nodeId', event.target.value)}>
+            <option value="">Všechny</option>
+            {nodes.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Od
+          <input
+            type="datetime-local"
+            value={filters.from}
+            onChange={(event) => updateFilter('from', event.target.value)}
+          />
+        </label>
+        <label>
+          Do
+          <input
+            type="datetime-local"
+            value={filters.to}
+            onChange={(event) => updateFilter('to', event.target.value)}
+          />
+        </label>
+      </div>
+      {filters.competitor ? (
+        <p>
+          Soutěžící: {filters.competitor.displayName}
+          {filters.competitor.startNumber != null ? ` (#${filters.competitor.startNumber})` : ''}{' '}
+          <button type="button" className="secondary" onClick={() => updateFilter('competitor', null)}>
+            Zrušit filtr
+          </button>
+        </p>
+      ) : (
+        <CompetitorSearch
+          endpoint="/calculator/competitors/search"
+          onSelect={(competitor) => updateFilter('competitor', competitor)}
+        />
+      )}
+      <div className="actions">
+        <button type="button" className="secondary" onClick={() => setFilters(emptyFilters)}>
+          Vymazat filtry
+        </button>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Kdy</th>
+            <th>Akce</th>
+            <th>Kdo</th>
+            <th>Uzel / soutěžící</th>
+            <th>Hodnoty</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 && !loading ? (
+            <tr>
+              <td colSpan={5}>Žádné záznamy</td>
+            </tr>
+          ) : null}
+          {entries.map((entry) => (
+            <tr key={entry.id}>
+              <td>{new Date(entry.createdAt).toLocaleString('cs-CZ')}</td>
+              <td>
+                {ACTION_LABELS[entry.action] ?? entry.action}
+                {entry.attemptNumber != null ? (
+                  <small className="attempt-history__ip">pokus {entry.attemptNumber}</small>
+                ) : null}
+              </td>
+              <td>
+                {entry.changedByName ?? '—'}
+                {entry.changedRole ? ` (${ROLE_LABELS[entry.changedRole]})` : ''}
+                {entry.changedIp ? <small className="attempt-history__ip">{entry.changedIp}</small> : null}
+              </td>
+              <td>
+                {entry.nodeName ?? '—'}
+                {entry.competitorId ? (
+                  <small className="attempt-history__ip">
+                    {entry.competitorName ?? entry.competitorId}
+                    {entry.competitorStartNumber != null ? ` #${entry.competitorStartNumber}` : ''}
+                  </small>
+                ) : null}
+              </td>
+              <td>
+                <AuditValues entry={entry} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {nextCursor ? (
+        <div className="pager">
+          <span>Zobrazeno {entries.length} záznamů</span>
+          <button type="button" className="secondary" onClick={() => load(nextCursor)} disabled={loading}>
+            Načíst další
+          </button>
+        </div>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
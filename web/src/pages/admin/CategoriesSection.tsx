@@ -0,0 +1,199 @@
+import { FormEvent, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type { AdminCategoryRequest, CategoryDto } from '../../api/types';
+
+interface CategoriesSectionProps {
+  eventId: string;
+  categories: CategoryDto[];
+  onChanged: () => Promise<void> | void;
+}
+
+const CATEGORY_CODES = ['N', 'M', 'S', 'R'];
+
+const emptyForm = {
+  code: '',
+  name: '',
+  description: '',
+  displayOrder: 100,
+};
+
+export default function CategoriesSection({ eventId, categories, onChanged }: CategoriesSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const usedCodes = new Set(categories.map((category) => category.code));
+  const freeCodes = CATEGORY_CODES.filter((code) => !usedCodes.has(code));
+
+  const editCategory = (category: CategoryDto) => {
+    setEditingCode(category.code);
+    setForm({
+      code: category.code,
+      name: category.name,
+      description: category.description ?? '',
+      displayOrder: category.display_order,
+    });
+    setMessage(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingCode(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+    try {
+      const payload: AdminCategoryRequest = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        displayOrder: form.displayOrder,
+      };
+      if (editingCode) {
+        await fetchWithAuth(`/admin/events/${eventId}/categories/${encodeURIComponent(editingCode)}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+        });
+      } else {
+        await fetchWithAuth(`/admin/events/${eventId}/categories`, {
+          method: 'POST',
+          body: JSON.stringify({ ...payload, code: form.code }),
+        });
+      }
+      setMessage(editingCode ? 'Kategorie uložena' : 'Kategorie přidána');
+      resetForm();
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení kategorie selhalo');
+    }
+  };
+
+  const handleDelete = async (category: CategoryDto) => {
+    if (!window.confirm(`Odstranit kategorii ${category.code}?`)) {
+      return;
+    }
+    setMessage(null);
+    setError(null);
+    try {
+      await fetchWithAuth(`/admin/events/${eventId}/categories/${encodeURIComponent(category.code)}`, {
+        method: 'DELETE',
+      });
+      setMessage('Kategorie odstraněna');
+      if (editingCode === category.code) {
+        resetForm();
+      }
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Odstranění kategorie selhalo');
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Kategorie</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Kód</th>
+            <th>Název</th>
+            <th>Popis</th>
+            <th>Řazení</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {categories.length === 0 ? (
+            <tr>
+              <td colSpan={5}>Žádné kategorie</td>
+            </tr>
+          ) : null}
+          {categories.map((category) => (
+            <tr key={category.id}>
+              <td>{category.code}</td>
+              <td>{category.name}</td>
+              <td>{category.description ?? '—'}</td>
+              <td>{category.display_order}</td>
+              <td>
+                <div className="actions">
+                  <button type="button" className="secondary" onClick={() => editCategory(category)}>
+                    Upravit
+                  </button>
+                  <button type="button" className="secondary" onClick={() => handleDelete(category)}>
+                    Odstranit
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {editingCode || freeCodes.length > 0 ? (
+        <form className="form" onSubmit={handleSave}>
+          <label>
+            Kód
+            <select
+              value={form.code}
+              onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+              disabled={Boolean(editingCode)}
+              required
+            >
+              <option value="" disabled>
+                Vyber kód
+              </option>
+              {(editingCode ? [editingCode] : freeCodes).map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Název
+            <input
+              type="text"
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              required
+            />
+          </label>
+          <label>
+            Popis
+            <input
+              type="text"
+              value={form.description}
+              onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+            />
+          </label>
+          <label>
+            Řazení
+            <input
+              type="number"
+              value={form.displayOrder}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, displayOrder: Number.parseInt(event.target.value, 10) || 0 }))
+              }
+            />
+          </label>
+          <div className="actions">
+            <button type="submit">{editingCode ? 'Uložit kategorii' : 'Přidat kategorii'}</button>
+            {editingCode ? (
+              <button type="button" className="secondary" onClick={resetForm}>
+                Zrušit úpravu
+              </button>
+            ) : null}
+          </div>
+        </form>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { ApiError } from '../../api/client';
+import type {
+  AdminCategoryNodesRequest,
+  AdminEventContextResponse,
+  AdminOrphanedAttemptsError,
+} from '../../api/types';
+
+interface CategoryNodesSectionProps {
+  eventId: string;
+  context: AdminEventContextResponse;
+  onChanged: () => Promise<void> | void;
+}
+
+function cellKey(categoryCode: string, nodeId: string) {
+  return `${categoryCode}:${nodeId}`;
+}
+
+export default function CategoryNodesSection({ eventId, context, onChanged }: CategoryNodesSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const { categories, nodes, categoryNodes } = context;
+
+  const saved = useMemo(
+    () => new Set(categoryNodes.map((entry) => cellKey(entry.category_code, entry.node_id))),
+    [categoryNodes],
+  );
+  const [selected, setSelected] = useState(saved);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelected(saved);
+  }, [saved]);
+
+  const changedCategories = categories.filter((category) =>
+    nodes.some((node) => {
+      const key = cellKey(category.code, node.id);
+      return saved.has(key) !== selected.has(key);
+    }),
+  );
+
+  const toggle = (categoryCode: string, nodeId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      const key = cellKey(categoryCode, nodeId);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const saveCategory = async (categoryCode: string, request: AdminCategoryNodesRequest): Promise<boolean> => {
+    try {
+      await fetchWithAuth(`/admin/events/${eventId}/categories/${encodeURIComponent(categoryCode)}/nodes`, {
+        method: 'PUT',
+        body: JSON.stringify(request),
+      });
+      return true;
+    } catch (err) {
+      const orphaned =
+        err instanceof ApiError && err.status === 409
+          ? (err.body as AdminOrphanedAttemptsError | undefined)?.details?.nodes
+          : undefined;
+      if (!orphaned || request.confirmOrphanedAttempts) {
+        throw err;
+      }
+      const summary = orphaned
+        .map((entry) => `${nodes.find((node) => node.id === entry.nodeId)?.name ?? entry.nodeId}: ${entry.attempts}`)
+        .join(', ');
+      const confirmed = window.confirm(
+        `Kategorie ${categoryCode} už má na odebíraných uzlech zapsané pokusy (${summary}). ` +
+          'Pokusy zůstanou uložené, ale zmizí z výsledků. Pokračovat?',
+      );
+      if (!confirmed) {
+        return false;
+      }
+      return saveCategory(categoryCode, { ...request, confirmOrphanedAttempts: true });
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    let savedCount = 0;
+    try {
+      for (const category of changedCategories) {
+        const nodeIds = nodes.filter((node) => selected.has(cellKey(category.code, node.id))).map((node) => node.id);
+        if (await saveCategory(category.code, { nodeIds })) {
+          savedCount += 1;
+        }
+      }
+      setMessage(`Uloženo ${savedCount} z ${changedCategories.length} kategorií`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení přiřazení uzlů selhalo');
+    } finally {
+      setSaving(false);
+      await onChanged();
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Uzly v kategoriích</h2>
+      <table className="matrix">
+        <thead>
+          <tr>
+            <th>Uzel</th>
+            {categories.map((category) => (
+              <th key={category.id} title={category.finalized_at ? 'Kategorie je uzavřená' : category.name}>
+                {category.code}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {nodes.map((node) => (
+            <tr key={node.id}>
+              <td>{node.name}</td>
+              {categories.map((category) => {
+                const key = cellKey(category.code, node.id);
+                return (
+                  <td key={key} className="matrix__cell">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(key)}
+                      onChange={() => toggle(category.code, node.id)}
+                      disabled={Boolean(category.finalized_at) || saving}
+                      aria-label={`${node.name} v kategorii ${category.code}`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="actions">
+        <button type="button" onClick={handleSave} disabled={saving || changedCategories.length === 0}>
+          {saving ? 'Ukládám…' : 'Uložit přiřazení'}
+        </button>
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => setSelected(saved)}
+          disabled={saving || changedCategories.length === 0}
+        >
+          Zahodit změny
+        </button>
+      </div>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
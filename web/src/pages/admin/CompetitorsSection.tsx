@@ -0,0 +1,408 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type {
+  AdminCompetitorDto,
+  AdminCompetitorListResponse,
+  AdminCompetitorSort,
+  AdminIssueTokenResponse,
+  AdminUpdateCompetitorRequest,
+  CategoryDto,
+} from '../../api/types';
+
+interface CompetitorsSectionProps {
+  eventId: string;
+  categories: CategoryDto[];
+  competitorCount: number;
+  onChanged: () => Promise<void> | void;
+}
+
+interface Filters {
+  categoryCode: string;
+  club: string;
+  q: string;
+  missingToken: boolean;
+}
+
+interface EditDraft {
+  displayName: string;
+  categoryCode: string;
+  club: string;
+  startNumber: string;
+  birthYear: string;
+  notes: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: Filters = { categoryCode: '', club: '', q: '', missingToken: false };
+
+const SORT_COLUMNS: { key: AdminCompetitorSort; label: string }[] = [
+  { key: 'start_number', label: 'Číslo' },
+  { key: 'display_name', label: 'Jméno' },
+  { key: 'category_code', label: 'Kategorie' },
+  { key: 'club', label: 'Oddíl' },
+];
+
+function toDraft(competitor: AdminCompetitorDto): EditDraft {
+  return {
+    displayName: competitor.display_name,
+    categoryCode: competitor.category_code,
+    club: competitor.club ?? '',
+    startNumber: competitor.start_number?.toString() ?? '',
+    birthYear: competitor.birth_year?.toString() ?? '',
+    notes: competitor.notes ?? '',
+  };
+}
+
+function parseOptionalInt(value: string) {
+  return value.trim() ? Number.parseInt(value, 10) : null;
+}
+
+export default function CompetitorsSection({ eventId, categories, competitorCount, onChanged }: CompetitorsSectionProps) {
+  const { fetchWithAuth } = useAuth();
+
+  const [filterDraft, setFilterDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<AdminCompetitorSort>('start_number');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+  const [page, setPage] = useState(1);
+
+  const [list, setList] = useState<AdminCompetitorListResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<{ id: string; draft: EditDraft } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ sort, order, page: String(page), pageSize: String(PAGE_SIZE) });
+    if (filters.categoryCode) {
+      params.set('categoryCode', filters.categoryCode);
+    }
+    if (filters.club.trim()) {
+      params.set('club', filters.club.trim());
+    }
+    if (filters.q.trim()) {
+      params.set('q', filters.q.trim());
+    }
+    if (filters.missingToken) {
+      params.set('missingToken', 'true');
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchWithAuth<AdminCompetitorListResponse>(
+        `/admin/events/${eventId}/competitors?${params.toString()}`,
+      );
+      setList(response);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Načtení soutěžících selhalo');
+      setList(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, fetchWithAuth, filters, order, page, sort]);
+
+  // competitorCount changes whenever a competitor is added elsewhere on the page.
+  useEffect(() => {
+    load();
+  }, [load, competitorCount]);
+
+  const handleFilter = (event: FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setFilters(filterDraft);
+  };
+
+  const handleReset = () => {
+    setPage(1);
+    setFilterDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleSort = (key: AdminCompetitorSort) => {
+    if (key === sort) {
+      setOrder((current) => (current === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSort(key);
+      setOrder('asc');
+    }
+    setPage(1);
+  };
+
+  const handleSave = async (competitor: AdminCompetitorDto) => {
+    if (!editing || editing.id !== competitor.id) {
+      return;
+    }
+    const { draft } = editing;
+    const payload: AdminUpdateCompetitorRequest = {
+      displayName: draft.displayName.trim(),
+      categoryCode: draft.categoryCode,
+      club: draft.club.trim() || null,
+      startNumber: parseOptionalInt(draft.startNumber),
+      birthYear: parseOptionalInt(draft.birthYear),
+      notes: draft.notes.trim() || null,
+    };
+
+    setBusyId(competitor.id);
+    setError(null);
+    setMessage(null);
+    try {
+      await fetchWithAuth(`/admin/competitors/${competitor.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      });
+      setEditing(null);
+      setMessage(`Soutěžící ${payload.displayName} uložen`);
+      await load();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení soutěžícího selhalo');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToken = async (competitor: AdminCompetitorDto) => {
+    const regenerate = Boolean(competitor.qr_token);
+    if (regenerate && !window.confirm(`Vydat nový token pro ${competitor.display_name}? Starý přestane platit.`)) {
+      return;
+    }
+
+    setBusyId(competitor.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetchWithAuth<AdminIssueTokenResponse>(`/admin/competitors/${competitor.id}/token`, {
+        method: 'POST',
+        body: JSON.stringify({ regenerate }),
+      });
+      setMessage(`Token pro ${competitor.display_name}: ${response.token}`);
+      await load();
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Generování tokenu selhalo');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateDraft = (patch: Partial<EditDraft>) => {
+    setEditing((current) => (current ? { ...current, draft: { ...current.draft, ...patch } } : current));
+  };
+
+  const pageCount = list ? Math.max(1, Math.ceil(list.total / list.pageSize)) : 1;
+
+  return (
+    <div className="card">
+      <h2>Soutěžící</h2>
+      <form className="form" onSubmit={handleFilter}>
+        <label>
+          Hledat
+          <input
+            type="search"
+            value={filterDraft.q}
+            placeholder="Jméno, oddíl, token, číslo"
+            onChange={(event) => setFilterDraft((prev) => ({ ...prev, q: event.target.value }))}
+          />
+        </label>
+        <label>
+          Kategorie
+          <select
+            value={filterDraft.categoryCode}
+            onChange={(event) => setFilterDraft((prev) => ({ ...prev, categoryCode: event.target.value }))}
+          >
+            <option value="">Všechny</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.code}>
+                {category.code} – {category.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Oddíl
+          <input
+            type="text"
+            value={filterDraft.club}
+            onChange={(event) => setFilterDraft((prev) => ({ ...prev, club: event.target.value }))}
+          />
+        </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={filterDraft.missingToken}
+            onChange={(event) => setFilterDraft((prev) => ({ ...prev, missingToken: event.target.checked }))}
+          />
+          Jen bez tokenu
+        </label>
+        <div className="actions">
+          <button type="submit">Filtrovat</button>
+          <button type="button" className="secondary" onClick={handleReset}>
+            Zrušit filtry
+          </button>
+        </div>
+      </form>
+
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+      {loading ? <p>Načítám…</p> : null}
+
+      {list ? (
+        <>
+          <table className="competitor-table">
+            <thead>
+              <tr>
+                {SORT_COLUMNS.map((column) => (
+                  <th key={column.key}>
+                    <button type="button" className="competitor-table__sort" onClick={() => handleSort(column.key)}>
+                      {column.label}
+                      {sort === column.key ? (order === 'asc' ? ' ▲' : ' ▼') : ''}
+                    </button>
+                  </th>
+                ))}
+                <th>Rok</th>
+                <th>Poznámka</th>
+                <th>Token</th>
+                <th>Akce</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.competitors.map((competitor) => {
+                const busy = busyId === competitor.id;
+                if (editing?.id === competitor.id) {
+                  const { draft } = editing;
+                  return (
+                    <tr key={competitor.id}>
+                      <td>
+                        <input
+                          className="competitor-table__input"
+                          type="number"
+                          value={draft.startNumber}
+                          onChange={(event) => updateDraft({ startNumber: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="competitor-table__input"
+                          type="text"
+                          value={draft.displayName}
+                          onChange={(event) => updateDraft({ displayName: event.target.value })}
+                          required
+                        />
+                      </td>
+                      <td>
+                        <select
+                          className="competitor-table__input"
+                          value={draft.categoryCode}
+                          onChange={(event) => updateDraft({ categoryCode: event.target.value })}
+                        >
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.code}>
+                              {category.code}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          className="competitor-table__input"
+                          type="text"
+                          value={draft.club}
+                          onChange={(event) => updateDraft({ club: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="competitor-table__input"
+                          type="number"
+                          value={draft.birthYear}
+                          onChange={(event) => updateDraft({ birthYear: event.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          className="competitor-table__input"
+                          type="text"
+                          value={draft.notes}
+                          onChange={(event) => updateDraft({ notes: event.target.value })}
+                        />
+                      </td>
+                      <td>{competitor.qr_token ?? '—'}</td>
+                      <td>
+                        <div className="actions">
+                          <button
+                            type="button"
+                            onClick={() => handleSave(competitor)}
+                            disabled={busy || !draft.displayName.trim()}
+                          >
+                            Uložit
+                          </button>
+                          <button type="button" className="secondary" onClick={() => setEditing(null)} disabled={busy}>
+                            Zrušit
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                }
+                return (
+                  <tr key={competitor.id}>
+                    <td>{competitor.start_number ?? '—'}</td>
+                    <td>{competitor.display_name}</td>
+                    <td>{competitor.category_code}</td>
+                    <td>{competitor.club ?? '—'}</td>
+                    <td>{competitor.birth_year ?? '—'}</td>
+                    <td>{competitor.notes ?? ''}</td>
+                    <td>{competitor.qr_token ?? '—'}</td>
+                    <td>
+                      <div className="actions">
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => setEditing({ id: competitor.id, draft: toDraft(competitor) })}
+                          disabled={busyId !== null}
+                        >
+                          Upravit
+                        </button>
+                        <button
+                          type="button"
+                          className="secondary"
+                          onClick={() => handleToken(competitor)}
+                          disabled={busyId !== null}
+                        >
+                          {competitor.qr_token ? 'Nový token' : 'Vydat token'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {list.competitors.length === 0 ? <p>Žádný soutěžící neodpovídá filtrům.</p> : null}
+          <div className="pager">
+            <button type="button" className="secondary" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+              Předchozí
+            </button>
+            <span>
+              Strana {list.page} z {pageCount} · celkem {list.total}
+            </span>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount || loading}
+            >
+              Další
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
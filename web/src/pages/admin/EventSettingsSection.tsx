@@ -0,0 +1,75 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type {
+  AdminEventContextResponse,
+  AdminUpdateEventSettingsRequest,
+  TimeLimitPolicy,
+} from '../../api/types';
+
+interface EventSettingsSectionProps {
+  context: AdminEventContextResponse;
+  onChanged: () => Promise<void> | void;
+}
+
+export default function EventSettingsSection({ context, onChanged }: EventSettingsSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [policy, setPolicy] = useState<TimeLimitPolicy>(context.event.time_limit_policy);
+  const [faultCode, setFaultCode] = useState(context.event.time_limit_fault_code ?? '');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPolicy(context.event.time_limit_policy);
+    setFaultCode(context.event.time_limit_fault_code ?? '');
+  }, [context.event.time_limit_policy, context.event.time_limit_fault_code]);
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+    try {
+      const payload: AdminUpdateEventSettingsRequest = {
+        timeLimitPolicy: policy,
+        timeLimitFaultCode: faultCode || null,
+      };
+      await fetchWithAuth(`/admin/events/${context.event.id}/settings`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      });
+      setMessage('Nastavení uloženo');
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení nastavení selhalo');
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Limit času na uzlu</h2>
+      <form className="form" onSubmit={handleSave}>
+        <label>
+          Čas nad limitem uzlu
+          <select value={policy} onChange={(event) => setPolicy(event.target.value as TimeLimitPolicy)}>
+            <option value="reject">Odmítnout</option>
+            <option value="fault">Zapsat jako chybu</option>
+          </select>
+        </label>
+        <label>
+          Kód chyby pro překročení limitu
+          <select value={faultCode} onChange={(event) => setFaultCode(event.target.value)} required={policy === 'fault'}>
+            <option value="">—</option>
+            {context.faultCodes.map((entry) => (
+              <option key={entry.code} value={entry.code}>
+                {entry.code} – {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit">Uložit nastavení</button>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
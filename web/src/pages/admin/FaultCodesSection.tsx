@@ -0,0 +1,178 @@
+import { FormEvent, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type { AdminUpsertFaultCodeRequest, FaultCodeDto, FaultRanking } from '../../api/types';
+
+interface FaultCodesSectionProps {
+  eventId: string;
+  faultCodes: FaultCodeDto[];
+  onChanged: () => Promise<void> | void;
+}
+
+const rankingLabels: Record<FaultRanking, string> = {
+  last: 'Jako bez času (poslední místo)',
+  after_finishers: 'Hned za všemi s časem',
+};
+
+const emptyForm = {
+  code: '',
+  label: '',
+  description: '',
+  ranking: 'last' as FaultRanking,
+  displayOrder: 100,
+};
+
+export default function FaultCodesSection({ eventId, faultCodes, onChanged }: FaultCodesSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const editFaultCode = (faultCode: FaultCodeDto) => {
+    setForm({
+      code: faultCode.code,
+      label: faultCode.label,
+      description: faultCode.description ?? '',
+      ranking: faultCode.ranking,
+      displayOrder: faultCode.display_order,
+    });
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+    try {
+      const payload: AdminUpsertFaultCodeRequest = {
+        label: form.label,
+        description: form.description || null,
+        ranking: form.ranking,
+        displayOrder: form.displayOrder,
+      };
+      await fetchWithAuth(`/admin/events/${eventId}/fault-codes/${encodeURIComponent(form.code.trim())}`, {
+        method: 'PUT',
+        body: JSON.stringify(payload),
+      });
+      setMessage('Kód chyby uložen');
+      setForm(emptyForm);
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení kódu chyby selhalo');
+    }
+  };
+
+  const handleDelete = async (code: string) => {
+    setMessage(null);
+    setError(null);
+    try {
+      await fetchWithAuth(`/admin/events/${eventId}/fault-codes/${encodeURIComponent(code)}`, {
+        method: 'DELETE',
+      });
+      setMessage('Kód chyby odstraněn');
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Odstranění kódu chyby selhalo');
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Kódy chyb</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Kód</th>
+            <th>Název</th>
+            <th>Popis</th>
+            <th>Pořadí</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {faultCodes.length === 0 ? (
+            <tr>
+              <td colSpan={5}>Žádné kódy chyb</td>
+            </tr>
+          ) : null}
+          {faultCodes.map((faultCode) => (
+            <tr key={faultCode.id}>
+              <td>{faultCode.code}</td>
+              <td>{faultCode.label}</td>
+              <td>{faultCode.description ?? '—'}</td>
+              <td>{rankingLabels[faultCode.ranking]}</td>
+              <td>
+                <div className="actions">
+                  <button type="button" className="secondary" onClick={() => editFaultCode(faultCode)}>
+                    Upravit
+                  </button>
+                  <button type="button" className="secondary" onClick={() => handleDelete(faultCode.code)}>
+                    Odstranit
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form className="form" onSubmit={handleSave}>
+        <label>
+          Kód
+          <input
+            type="text"
+            value={form.code}
+            onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+            maxLength={20}
+            required
+          />
+        </label>
+        <label>
+          Název
+          <input
+            type="text"
+            value={form.label}
+            onChange={(event) => setForm((prev) => ({ ...prev, label: event.target.value }))}
+            required
+          />
+        </label>
+        <label>
+          Popis
+          <input
+            type="text"
+            value={form.description}
+            onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+          />
+        </label>
+        <label>
+          Pořadí ve výsledcích
+          <select
+            value={form.ranking}
+            onChange={(event) => setForm((prev) => ({ ...prev, ranking: event.target.value as FaultRanking }))}
+          >
+            {Object.entries(rankingLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Řazení v nabídce
+          <input
+            type="number"
+            value={form.displayOrder}
+            onChange={(event) =>
+              setForm((prev) => ({ ...prev, displayOrder: Number.parseInt(event.target.value, 10) || 0 }))
+            }
+          />
+        </label>
+        <button type="submit">Uložit kód chyby</button>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
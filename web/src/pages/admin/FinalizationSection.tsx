@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type { AdminCategoryFinalizationResponse, CategoryDto } from '../../api/types';
+
+interface FinalizationSectionProps {
+  eventId: string;
+  categories: CategoryDto[];
+  onChanged: () => Promise<void> | void;
+}
+
+export default function FinalizationSection({ eventId, categories, onChanged }: FinalizationSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [busyCode, setBusyCode] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async (category: CategoryDto) => {
+    const finalize = !category.finalized_at;
+    const confirmation = finalize
+      ? `Uzavřít výsledky kategorie ${category.code}? Další zápisy budou odmítnuty.`
+      : `Znovu otevřít kategorii ${category.code}? Výsledky budou opět předběžné.`;
+    if (!window.confirm(confirmation)) {
+      return;
+    }
+
+    setBusyCode(category.code);
+    setMessage(null);
+    setError(null);
+    try {
+      await fetchWithAuth<AdminCategoryFinalizationResponse>(
+        `/admin/events/${eventId}/categories/${encodeURIComponent(category.code)}/${finalize ? 'finalize' : 'reopen'}`,
+        { method: 'POST' },
+      );
+      setMessage(finalize ? `Kategorie ${category.code} je oficiální` : `Kategorie ${category.code} je znovu otevřená`);
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Změna stavu kategorie selhala');
+    } finally {
+      setBusyCode(null);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Uzavření výsledků</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Kategorie</th>
+            <th>Stav</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {categories.map((category) => (
+            <tr key={category.id}>
+              <td>
+                <strong>{category.code}</strong> – {category.name}
+              </td>
+              <td>
+                {category.finalized_at
+                  ? `Oficiální od ${new Date(category.finalized_at).toLocaleString('cs-CZ')}`
+                  : 'Předběžné'}
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className={category.finalized_at ? 'secondary' : undefined}
+                  onClick={() => handleToggle(category)}
+                  disabled={busyCode !== null}
+                >
+                  {category.finalized_at ? 'Znovu otevřít' : 'Uzavřít'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {message ? <p className="success">{message}</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { ApiError } from '../../api/client';
+import type { AdminImportResponse } from '../../api/types';
+
+interface ImportSectionProps {
+  eventId: string;
+  onChanged: () => Promise<void> | void;
+}
+
+export default function ImportSection({ eventId, onChanged }: ImportSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [generateTokens, setGenerateTokens] = useState(true);
+  const [report, setReport] = useState<AdminImportResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) {
+      return;
+    }
+
+    const params = new URLSearchParams({ dryRun: String(dryRun), generateTokens: String(generateTokens) });
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetchWithAuth<AdminImportResponse>(
+        `/admin/events/${eventId}/competitors/import?${params.toString()}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+          body: file,
+        },
+      );
+      if (dryRun) {
+        setReport(response);
+        return;
+      }
+      setReport(null);
+      setMessage(`Importováno ${response.created?.length ?? 0} soutěžících`);
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      // A rejected import still carries the row report, so show it in place of the stale preview.
+      const body = err instanceof ApiError ? (err.body as { details?: AdminImportResponse } | undefined) : undefined;
+      if (body?.details?.rows) {
+        setReport(body.details);
+      }
+      setError(err instanceof Error ? err.message : 'Import selhal');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Import soutěžících</h2>
+      <p>
+        CSV nebo XLSX s hlavičkou. Povinné sloupce jsou Jméno a Kategorie, volitelné Oddíl, Startovní číslo, Rok
+        narození a Poznámka.
+      </p>
+      <div className="form">
+        <label>
+          Soubor
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null);
+              setReport(null);
+            }}
+          />
+        </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={generateTokens}
+            onChange={(event) => setGenerateTokens(event.target.checked)}
+          />
+          Vygenerovat QR tokeny
+        </label>
+        <div className="actions">
+          <button type="button" className="secondary" onClick={() => upload(true)} disabled={!file || busy}>
+            Náhled
+          </button>
+          <button
+            type="button"
+            onClick={() => upload(false)}
+            disabled={!file || busy || !report || report.summary.invalid > 0 || report.summary.valid === 0}
+          >
+            Importovat
+          </button>
+        </div>
+      </div>
+
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+
+      {report ? (
+        <>
+          <p>
+            Řádků: {report.summary.total} · v pořádku: {report.summary.valid} · s chybou: {report.summary.invalid}
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Řádek</th>
+                <th>Číslo</th>
+                <th>Jméno</th>
+                <th>Kategorie</th>
+                <th>Oddíl</th>
+                <th>Chyby</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => (
+                <tr key={row.row}>
+                  <td>{row.row}</td>
+                  <td>{row.competitor?.startNumber ?? '—'}</td>
+                  <td>{row.competitor?.displayName ?? '—'}</td>
+                  <td>{row.competitor?.categoryCode ?? '—'}</td>
+                  <td>{row.competitor?.club ?? '—'}</td>
+                  <td className={row.errors.length > 0 ? 'error' : undefined}>
+                    {row.errors.length > 0 ? row.errors.join('; ') : 'OK'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : null}
+    </div>
+  );
+}
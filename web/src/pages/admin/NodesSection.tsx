@@ -0,0 +1,258 @@
+import { FormEvent, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type { AdminEventContextResponse, AdminNodeRequest, AdminReorderNodesRequest } from '../../api/types';
+import { formatCentiseconds, parseTimeInput } from '../../utils/time';
+
+type AdminNode = AdminEventContextResponse['nodes'][number];
+
+interface NodesSectionProps {
+  eventId: string;
+  nodes: AdminNode[];
+  onChanged: () => Promise<void> | void;
+}
+
+const emptyForm = {
+  code: '',
+  name: '',
+  isRelay: false,
+  countsToOverall: true,
+  maxTime: '',
+  note: '',
+};
+
+export default function NodesSection({ eventId, nodes, onChanged }: NodesSectionProps) {
+  const { fetchWithAuth } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const editNode = (node: AdminNode) => {
+    setEditingId(node.id);
+    setForm({
+      code: node.code,
+      name: node.name,
+      isRelay: node.is_relay,
+      countsToOverall: node.counts_to_overall,
+      maxTime: node.max_time_centiseconds != null ? formatCentiseconds(node.max_time_centiseconds) : '',
+      note: node.note ?? '',
+    });
+    setMessage(null);
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setMessage(null);
+    setError(null);
+
+    const maxTimeCentiseconds = form.maxTime.trim() ? parseTimeInput(form.maxTime) : null;
+    if (form.maxTime.trim() && maxTimeCentiseconds == null) {
+      setError('Limit zadej ve formátu mm:ss.cc');
+      return;
+    }
+
+    try {
+      const payload: AdminNodeRequest = {
+        code: form.code.trim(),
+        name: form.name.trim(),
+        isRelay: form.isRelay,
+        countsToOverall: form.countsToOverall,
+        maxTimeCentiseconds,
+        note: form.note.trim() || null,
+      };
+      await fetchWithAuth(editingId ? `/admin/events/${eventId}/nodes/${editingId}` : `/admin/events/${eventId}/nodes`, {
+        method: editingId ? 'PATCH' : 'POST',
+        body: JSON.stringify(payload),
+      });
+      setMessage(editingId ? 'Uzel uložen' : 'Uzel přidán');
+      resetForm();
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Uložení uzlu selhalo');
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const order = nodes.map((node) => node.id);
+    const target = index + offset;
+    if (target < 0 || target >= order.length) {
+      return;
+    }
+    [order[index], order[target]] = [order[target], order[index]];
+
+    setMessage(null);
+    setError(null);
+    try {
+      const request: AdminReorderNodesRequest = { nodeIds: order };
+      await fetchWithAuth(`/admin/events/${eventId}/nodes/reorder`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Změna pořadí selhala');
+    }
+  };
+
+  const handleDelete = async (node: AdminNode) => {
+    if (!window.confirm(`Odstranit uzel ${node.name}?`)) {
+      return;
+    }
+    setMessage(null);
+    setError(null);
+    try {
+      await fetchWithAuth(`/admin/events/${eventId}/nodes/${node.id}`, { method: 'DELETE' });
+      setMessage('Uzel odstraněn');
+      if (editingId === node.id) {
+        resetForm();
+      }
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Odstranění uzlu selhalo');
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Uzly</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Pořadí</th>
+            <th>Kód</th>
+            <th>Název</th>
+            <th>Typ</th>
+            <th>Limit</th>
+            <th>Poznámka</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {nodes.length === 0 ? (
+            <tr>
+              <td colSpan={7}>Žádné uzly</td>
+            </tr>
+          ) : null}
+          {nodes.map((node, index) => (
+            <tr key={node.id}>
+              <td>
+                <div className="actions">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Posunout výš"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === nodes.length - 1}
+                    aria-label="Posunout níž"
+                  >
+                    ↓
+                  </button>
+                </div>
+              </td>
+              <td>{node.code}</td>
+              <td>{node.name}</td>
+              <td>
+                {node.is_relay ? 'štafeta' : 'jednotlivci'}
+                {!node.counts_to_overall ? ' · nepočítá se do overall' : ''}
+              </td>
+              <td>{formatCentiseconds(node.max_time_centiseconds)}</td>
+              <td>{node.note ?? '—'}</td>
+              <td>
+                <div className="actions">
+                  <button type="button" className="secondary" onClick={() => editNode(node)}>
+                    Upravit
+                  </button>
+                  <button type="button" className="secondary" onClick={() => handleDelete(node)}>
+                    Odstranit
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form className="form" onSubmit={handleSave}>
+        <label>
+          Kód
+          <input
+            type="text"
+            value={form.code}
+            onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+            maxLength={20}
+            required
+          />
+        </label>
+        <label>
+          Název
+          <input
+            type="text"
+            value={form.name}
+            onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+            required
+          />
+        </label>
+        <label>
+          Limit (mm:ss.cc)
+          <input
+            type="text"
+            value={form.maxTime}
+            placeholder="bez limitu"
+            onChange={(event) => setForm((prev) => ({ ...prev, maxTime: event.target.value }))}
+          />
+        </label>
+        <label>
+          Poznámka
+          <input
+            type="text"
+            value={form.note}
+            onChange={(event) => setForm((prev) => ({ ...prev, note: event.target.value }))}
+          />
+        </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={form.isRelay}
+            onChange={(event) => setForm((prev) => ({ ...prev, isRelay: event.target.checked }))}
+          />
+          Štafeta
+        </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={form.countsToOverall}
+            onChange={(event) => setForm((prev) => ({ ...prev, countsToOverall: event.target.checked }))}
+          />
+          Počítá se do overall
+        </label>
+        <div className="actions">
+          <button type="submit">{editingId ? 'Uložit uzel' : 'Přidat uzel'}</button>
+          {editingId ? (
+            <button type="button" className="secondary" onClick={resetForm}>
+              Zrušit úpravu
+            </button>
+          ) : null}
+        </div>
+      </form>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type {
+  AdminRevokeUserSessionsResponse,
+  AdminSessionDto,
+  AdminSessionsResponse,
+  NodeDto,
+  UserRole,
+} from '../../api/types';
+
+interface SessionsSectionProps {
+  eventId: string;
+  nodes: NodeDto[];
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'admin',
+  judge: 'rozhodčí',
+  calculator: 'výpočetka',
+};
+
+function formatTimestamp(value: string | null) {
+  return value ? new Date(value).toLocaleString('cs-CZ') : '—';
+}
+
+export default function SessionsSection({ eventId, nodes }: SessionsSectionProps) {
+  const { state, fetchWithAuth } = useAuth();
+  const [nodeId, setNodeId] = useState('');
+  const [sessions, setSessions] = useState<AdminSessionDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = nodeId ? `?nodeId=${encodeURIComponent(nodeId)}` : '';
+      const response = await fetchWithAuth<AdminSessionsResponse>(`/admin/events/${eventId}/sessions${query}`);
+      setSessions(response.sessions);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Načtení relací selhalo');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, fetchWithAuth, nodeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevoke = async (session: AdminSessionDto) => {
+    const name = session.user?.display_name ?? session.user_id;
+    if (!window.confirm(`Odhlásit zařízení ${session.device_info ?? 'bez názvu'} (${name})?`)) {
+      return;
+    }
+    setMessage(null);
+    setError(null);
+    try {
+      await fetchWithAuth(`/admin/events/${eventId}/sessions/${session.id}/revoke`, { method: 'POST' });
+      setMessage(`Zařízení uživatele ${name} odhlášeno`);
+      await load();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Odhlášení zařízení selhalo');
+    }
+  };
+
+  const handleRevokeAll = async (session: AdminSessionDto) => {
+    const name = session.user?.display_name ?? session.user_id;
+    if (!window.confirm(`Odhlásit všechna zařízení uživatele ${name}?`)) {
+      return;
+    }
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetchWithAuth<AdminRevokeUserSessionsResponse>(
+        `/admin/events/${eventId}/users/${session.user_id}/sessions/revoke`,
+        { method: 'POST' },
+      );
+      setMessage(`Uživatel ${name} odhlášen z ${response.revoked} zařízení`);
+      await load();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Odhlášení zařízení selhalo');
+    }
+  };
+
+  return (
+    <div className="card">
+      <header className="card__header">
+        <h2>Přihlášená zařízení</h2>
+        <div className="inline-form">
+          <label>
+            Uzel
+            <select value={nodeId} onChange={(event) => setNodeId(event.target.value)}>
+              <option value="">Všechny</option>
+              {nodes.map((node) => (
+                <option key={node.id} value={node.id}>
+                  {node.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" className="secondary" onClick={load} disabled={loading}>
+            {loading ? 'Načítám…' : 'Obnovit'}
+          </button>
+        </div>
+      </header>
+      <table>
+        <thead>
+          <tr>
+            <th>Uživatel</th>
+            <th>Zařízení</th>
+            <th>Uzly</th>
+            <th>Přihlášení</th>
+            <th>Poslední obnova</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.length === 0 ? (
+            <tr>
+              <td colSpan={6}>Žádné aktivní relace</td>
+            </tr>
+          ) : null}
+          {sessions.map((session) => (
+            <tr key={session.id}>
+              <td>
+                {session.user?.display_name ?? session.user_id}
+                <small className="attempt-history__ip">{ROLE_LABELS[session.role]}</small>
+              </td>
+              <td>
+                {session.device_info ?? 'bez názvu'}
+                {session.current ? ' (toto zařízení)' : ''}
+                {session.created_ip ? <small className="attempt-history__ip">{session.created_ip}</small> : null}
+              </td>
+              <td>{session.nodeIds.map((id) => nodes.find((node) => node.id === id)?.name ?? id).join(', ') || '—'}</td>
+              <td>{formatTimestamp(session.created_at)}</td>
+              <td>{formatTimestamp(session.last_refreshed_at)}</td>
+              <td>
+                <div className="actions">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => handleRevoke(session)}
+                    disabled={session.current}
+                  >
+                    Odhlásit
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => handleRevokeAll(session)}
+                    disabled={session.user_id === state?.user.id}
+                  >
+                    Odhlásit vše
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+    </div>
+  );
+}
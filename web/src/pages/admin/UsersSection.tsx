@@ -0,0 +1,371 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import type {
+  AdminCreateAssignmentRequest,
+  AdminCreateUserRequest,
+  AdminCreateUserResponse,
+  AdminPasswordResetResponse,
+  AdminUpdateUserRequest,
+  AdminUserAssignment,
+  AdminUserDto,
+  AdminUsersResponse,
+  CategoryDto,
+  NodeDto,
+  UserRole,
+} from '../../api/types';
+
+interface UsersSectionProps {
+  eventId: string;
+  nodes: NodeDto[];
+  categories: CategoryDto[];
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'admin',
+  judge: 'rozhodčí',
+  calculator: 'výpočetka',
+};
+
+const emptyUserForm: AdminCreateUserRequest = {
+  email: '',
+  displayName: '',
+  role: 'judge',
+  password: '',
+};
+
+const emptyAssignmentForm = {
+  userId: '',
+  role: 'judge' as UserRole,
+  nodeIds: [] as string[],
+  allowedCategoryCodes: [] as string[],
+};
+
+function toggleValue(values: string[], value: string) {
+  return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value];
+}
+
+export default function UsersSection({ eventId, nodes, categories }: UsersSectionProps) {
+  const { state, fetchWithAuth } = useAuth();
+  const [users, setUsers] = useState<AdminUserDto[]>([]);
+  const [userForm, setUserForm] = useState(emptyUserForm);
+  const [assignmentForm, setAssignmentForm] = useState(emptyAssignmentForm);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth<AdminUsersResponse>(`/admin/events/${eventId}/users?scope=all`);
+      setUsers(response.users);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Načtení uživatelů selhalo');
+    }
+  }, [eventId, fetchWithAuth]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<string>, fallbackError: string) => {
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await action());
+      await load();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : fallbackError);
+    }
+  };
+
+  const handleCreateUser = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const payload: AdminCreateUserRequest = {
+        ...userForm,
+        email: userForm.email.trim(),
+        displayName: userForm.displayName.trim(),
+        password: userForm.password || undefined,
+      };
+      const response = await fetchWithAuth<AdminCreateUserResponse>(`/admin/events/${eventId}/users`, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+      setUserForm(emptyUserForm);
+      return response.password
+        ? `Uživatel ${response.user.email} vytvořen, dočasné heslo: ${response.password}`
+        : `Uživatel ${response.user.email} vytvořen`;
+    }, 'Vytvoření uživatele selhalo');
+  };
+
+  const handleToggleActive = (user: AdminUserDto) => {
+    if (user.active && !window.confirm(`Deaktivovat ${user.display_name}? Všechna jeho zařízení budou odhlášena.`)) {
+      return;
+    }
+    run(async () => {
+      const payload: AdminUpdateUserRequest = { active: !user.active };
+      await fetchWithAuth(`/admin/events/${eventId}/users/${user.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      });
+      return user.active ? `${user.display_name} deaktivován` : `${user.display_name} znovu aktivován`;
+    }, 'Změna stavu uživatele selhala');
+  };
+
+  const handleRoleChange = (user: AdminUserDto, role: UserRole) => {
+    if (!window.confirm(`Změnit roli ${user.display_name} na ${ROLE_LABELS[role]}? Uživatel se musí znovu přihlásit.`)) {
+      return;
+    }
+    run(async () => {
+      const payload: AdminUpdateUserRequest = { role };
+      await fetchWithAuth(`/admin/events/${eventId}/users/${user.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      });
+      return `${user.display_name} má roli ${ROLE_LABELS[role]}`;
+    }, 'Změna role selhala');
+  };
+
+  const handlePasswordReset = (user: AdminUserDto) => {
+    if (!window.confirm(`Vygenerovat nové heslo pro ${user.display_name}? Stávající přihlášení skončí.`)) {
+      return;
+    }
+    run(async () => {
+      const response = await fetchWithAuth<AdminPasswordResetResponse>(
+        `/admin/events/${eventId}/users/${user.id}/password-reset`,
+        { method: 'POST' },
+      );
+      return `Nové heslo pro ${user.email}: ${response.password}`;
+    }, 'Reset hesla selhal');
+  };
+
+  const handleAssign = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const payload: AdminCreateAssignmentRequest = {
+        role: assignmentForm.role,
+        nodeIds: assignmentForm.role === 'judge' ? assignmentForm.nodeIds : [],
+        allowedCategoryCodes: assignmentForm.allowedCategoryCodes,
+      };
+      await fetchWithAuth(`/admin/events/${eventId}/users/${assignmentForm.userId}/assignments`, {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      });
+      setAssignmentForm(emptyAssignmentForm);
+      return 'Přiřazení uloženo';
+    }, 'Přiřazení selhalo');
+  };
+
+  const handleUnassign = (assignment: AdminUserAssignment) => {
+    run(async () => {
+      await fetchWithAuth(`/admin/events/${eventId}/assignments/${assignment.id}`, { method: 'DELETE' });
+      return 'Přiřazení odebráno';
+    }, 'Odebrání přiřazení selhalo');
+  };
+
+  const describeAssignment = (assignment: AdminUserAssignment) => {
+    const node = nodes.find((entry) => entry.id === assignment.node_id);
+    const categoriesLabel =
+      assignment.allowed_category_codes.length > 0 ? ` (${assignment.allowed_category_codes.join(', ')})` : '';
+    return `${ROLE_LABELS[assignment.role]}${node ? ` · ${node.name}` : ''}${categoriesLabel}`;
+  };
+
+  return (
+    <div className="card">
+      <h2>Uživatelé a role</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Jméno</th>
+            <th>E-mail</th>
+            <th>Role</th>
+            <th>Přiřazení v eventu</th>
+            <th>Akce</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => (
+            <tr key={user.id}>
+              <td>
+                {user.display_name}{' '}
+                {!user.active ? <span className="status-badge">deaktivován</span> : null}
+              </td>
+              <td>{user.email}</td>
+              <td>
+                <select
+                  value={user.role}
+                  onChange={(event) => handleRoleChange(user, event.target.value as UserRole)}
+                  disabled={user.id === state?.user.id}
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                {user.assignments.length === 0 ? '—' : null}
+                {user.assignments.map((assignment) => (
+                  <div key={assignment.id} className="assignment">
+                    {describeAssignment(assignment)}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => handleUnassign(assignment)}
+                      aria-label="Odebrat přiřazení"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </td>
+              <td>
+                <div className="actions">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => handleToggleActive(user)}
+                    disabled={user.id === state?.user.id}
+                  >
+                    {user.active ? 'Deaktivovat' : 'Aktivovat'}
+                  </button>
+                  <button type="button" className="secondary" onClick={() => handlePasswordReset(user)}>
+                    Reset hesla
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {error ? <p className="error">{error}</p> : null}
+      {message ? <p className="success">{message}</p> : null}
+
+      <h3>Nový uživatel</h3>
+      <form className="form" onSubmit={handleCreateUser}>
+        <label>
+          E-mail
+          <input
+            type="email"
+            value={userForm.email}
+            onChange={(event) => setUserForm((prev) => ({ ...prev, email: event.target.value }))}
+            required
+          />
+        </label>
+        <label>
+          Jméno
+          <input
+            type="text"
+            value={userForm.displayName}
+            onChange={(event) => setUserForm((prev) => ({ ...prev, displayName: event.target.value }))}
+            required
+          />
+        </label>
+        <label>
+          Role
+          <select
+            value={userForm.role}
+            onChange={(event) => setUserForm((prev) => ({ ...prev, role: event.target.value as UserRole }))}
+          >
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Heslo
+          <input
+            type="text"
+            value={userForm.password ?? ''}
+            placeholder="vygenerovat"
+            minLength={8}
+            onChange={(event) => setUserForm((prev) => ({ ...prev, password: event.target.value }))}
+          />
+        </label>
+        <button type="submit">Vytvořit uživatele</button>
+      </form>
+
+      <h3>Přiřadit roli v eventu</h3>
+      <form className="form" onSubmit={handleAssign}>
+        <label>
+          Uživatel
+          <select
+            value={assignmentForm.userId}
+            onChange={(event) => {
+              const userId = event.target.value;
+              const role = users.find((user) => user.id === userId)?.role ?? 'judge';
+              setAssignmentForm((prev) => ({ ...prev, userId, role }));
+            }}
+            required
+          >
+            <option value="" disabled>
+              Vyber uživatele
+            </option>
+            {users
+              .filter((user) => user.active)
+              .map((user) => (
+                <option key={user.id} value={user.id}>
+                  {user.display_name} ({user.email})
+                </option>
+              ))}
+          </select>
+        </label>
+        <label>
+          Role
+          {/* The event assignment always uses the user's own role; change the role in the table above. */}
+          <select value={assignmentForm.role} disabled>
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {assignmentForm.role === 'judge' ? (
+          <fieldset className="checkbox-group">
+            <legend>Uzly</legend>
+            {nodes.map((node) => (
+              <label key={node.id} className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={assignmentForm.nodeIds.includes(node.id)}
+                  onChange={() =>
+                    setAssignmentForm((prev) => ({ ...prev, nodeIds: toggleValue(prev.nodeIds, node.id) }))
+                  }
+                />
+                {node.name}
+              </label>
+            ))}
+          </fieldset>
+        ) : null}
+        <fieldset className="checkbox-group">
+          <legend>Kategorie (prázdné = všechny)</legend>
+          {categories.map((category) => (
+            <label key={category.id} className="checkbox">
+              <input
+                type="checkbox"
+                checked={assignmentForm.allowedCategoryCodes.includes(category.code)}
+                onChange={() =>
+                  setAssignmentForm((prev) => ({
+                    ...prev,
+                    allowedCategoryCodes: toggleValue(prev.allowedCategoryCodes, category.code),
+                  }))
+                }
+              />
+              {category.code}
+            </label>
+          ))}
+        </fieldset>
+        <button
+          type="submit"
+          disabled={!assignmentForm.userId || (assignmentForm.role === 'judge' && assignmentForm.nodeIds.length === 0)}
+        >
+          Přiřadit
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import type { JudgeAttemptRequest } from '../api/types';
+
+const DB_NAME = 'draci-smycka';
+const DB_VERSION = 1;
+const STORE_NAME = 'attempt-queue';
+
+export interface QueuedAttempt {
+  id: string;
+  eventId: string;
+  competitorId: string;
+  competitorName: string;
+  nodeId: string;
+  attemptNumber: number;
+  result: JudgeAttemptRequest['result'];
+  note?: string;
+  createdAt: number;
+  tries: number;
+  lastError: string | null;
+  failed: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('eventId', 'eventId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+export async function listQueuedAttempts(eventId: string): Promise<QueuedAttempt[]> {
+  const items = await runRequest<QueuedAttempt[]>('readonly', (store) =>
+    store.index('eventId').getAll(IDBKeyRange.only(eventId)),
+  );
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getQueuedAttempt(id: string): Promise<QueuedAttempt | null> {
+  const item = await runRequest<QueuedAttempt | undefined>('readonly', (store) => store.get(id));
+  return item ?? null;
+}
+
+export async function saveQueuedAttempt(item: QueuedAttempt): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(item));
+}
+
+export async function removeQueuedAttempt(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id));
+}
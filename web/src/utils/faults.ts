@@ -0,0 +1,12 @@
+import type { FaultCodeDto } from '../api/types';
+
+export function formatFault(
+  faultCode: string | null | undefined,
+  faultCodes: Pick<FaultCodeDto, 'code' | 'label'>[],
+): string {
+  if (!faultCode) {
+    return '—';
+  }
+  const match = faultCodes.find((entry) => entry.code === faultCode);
+  return match ? `${match.code} – ${match.label}` : faultCode;
+}
@@ -0,0 +1,20 @@
+/**
+ * QR cards printed by `scripts/generate-qr-codes.mjs` encode a URL such as
+ * `https://zelenaliga.cz/draci-smycka?t=<token>`. Plain tokens are accepted too.
+ */
+export function extractQrToken(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (/^https?:\/\//i.test(trimmed)) {
+    try {
+      const url = new URL(trimmed);
+      const token = url.searchParams.get('t') ?? url.searchParams.get('token');
+      return token?.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+  return trimmed;
+}